@@ -0,0 +1,15 @@
+#version 300 es
+precision mediump float;
+
+in vec2 uv;
+
+uniform sampler2D source;
+uniform sampler2D bloom;
+
+out vec4 fragColor;
+
+// BLOOM_STRENGTH is defined by the canvas
+
+void main() {
+  fragColor = vec4(texture(source, uv).rgb + texture(bloom, uv).rgb * BLOOM_STRENGTH, 1.0);
+}
\ No newline at end of file
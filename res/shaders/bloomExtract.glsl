@@ -0,0 +1,17 @@
+#version 300 es
+precision mediump float;
+
+in vec2 uv;
+
+uniform sampler2D source;
+
+out vec4 fragColor;
+
+// BLOOM_THRESHOLD is defined by the canvas
+
+void main() {
+  vec3 color = texture(source, uv).rgb;
+  float brightness = max(color.r, max(color.g, color.b));
+
+  fragColor = vec4(color * smoothstep(BLOOM_THRESHOLD, 1.0, brightness), 1.0);
+}
\ No newline at end of file
@@ -0,0 +1,24 @@
+#version 300 es
+precision mediump float;
+
+in vec2 uv;
+
+uniform sampler2D source;
+
+out vec4 fragColor;
+
+// BLUR_DIRECTION is defined by the canvas for each blur pass
+
+const float WEIGHTS[5] = float[](0.227027, 0.1945946, 0.1216216, 0.054054, 0.016216);
+
+void main() {
+  vec2 texelStep = BLUR_DIRECTION / vec2(textureSize(source, 0));
+  vec3 color = texture(source, uv).rgb * WEIGHTS[0];
+
+  for (int i = 1; i < 5; i++) {
+    color += texture(source, uv + texelStep * float(i)).rgb * WEIGHTS[i];
+    color += texture(source, uv - texelStep * float(i)).rgb * WEIGHTS[i];
+  }
+
+  fragColor = vec4(color, 1.0);
+}
\ No newline at end of file
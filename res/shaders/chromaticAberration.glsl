@@ -0,0 +1,22 @@
+#version 300 es
+precision mediump float;
+
+in vec2 uv;
+
+uniform sampler2D source;
+uniform float strength;
+
+out vec4 fragColor;
+
+// MAX_ABERRATION is defined by the canvas
+
+void main() {
+  // Split the colour channels further apart towards the edges of the screen
+  vec2 offset = (uv - 0.5) * strength * MAX_ABERRATION;
+
+  float red = texture(source, uv + offset).r;
+  float green = texture(source, uv).g;
+  float blue = texture(source, uv - offset).b;
+
+  fragColor = vec4(red, green, blue, 1.0);
+}
\ No newline at end of file
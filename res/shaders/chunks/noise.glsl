@@ -0,0 +1,6 @@
+float staticNoise(vec3 p) {
+  p = fract(p * 0.3183099f + vec3(0.1f, 0.2f, 0.3f));
+  p *= 17.0f;
+
+  return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+}
\ No newline at end of file
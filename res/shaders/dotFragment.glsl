@@ -4,21 +4,18 @@ precision lowp float;
 in vec3 fragPosition;
 in vec3 fragNormal;
 in float fragFadeScale;
+in vec3 fragDotColor;
+flat in float fragDotType;
 
 uniform vec3 lightSource;
 uniform float time;
+uniform float reducedFlashing;
 
 out vec4 fragColor;
 
-vec3 DOT_COLOR_LIGHT = vec3(1.0, 0, 0);
-vec3 DOT_COLOR_DARK = vec3(0, 0, 1.0);
+// DOT_COLOR_DARK is defined by the canvas
 
-float staticNoise(vec3 p) {
-  p = fract(p * 0.3183099f + vec3(0.1f, 0.2f, 0.3f));
-  p *= 17.0f;
-
-  return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
-}
+#include "chunks/noise.glsl"
 
 void main() {
   if (fragFadeScale <= 0.0) {
@@ -28,8 +25,14 @@ void main() {
   float normalAngle = acos(-dot(normalize(fragPosition - lightSource), fragNormal));
   float angleProgress = abs(normalAngle) / (3.14159 / 2.0);
 
-  vec3 dotColor = mix(DOT_COLOR_LIGHT, DOT_COLOR_DARK, angleProgress);
-  float noiseScalar = staticNoise(vec3(gl_FragCoord.xy / 10.0, time));
+  // Only ramp surface dots towards the dark colour so the other types keep their colour at any angle
+  float darkness = fragDotType < 0.5 ? angleProgress : 0.0;
+  vec3 dotColor = mix(fragDotColor, DOT_COLOR_DARK, darkness);
+
+  // Flicker the dots slower and with less contrast when reducing flashing
+  float noiseTime = mix(time, floor(time * 2.0), reducedFlashing);
+  float noiseScalar = staticNoise(vec3(gl_FragCoord.xy / 10.0, noiseTime));
+  noiseScalar = mix(noiseScalar, 0.75 + noiseScalar * 0.25, reducedFlashing);
 
   fragColor = vec4(dotColor * fragFadeScale * noiseScalar, 1.0);
 }
\ No newline at end of file
@@ -5,6 +5,10 @@ in vec3 vertexPos;
 in vec3 dotPos;
 in vec3 dotNormal;
 in float dotTime;
+in vec3 dotColor;
+in float dotSize;
+in float dotLifetime;
+in float dotType;
 
 uniform mat4 viewMatrix;
 uniform mat4 projectionMatrix;
@@ -14,10 +18,10 @@ uniform float time;
 out vec3 fragPosition;
 out vec3 fragNormal;
 out float fragFadeScale;
+out vec3 fragDotColor;
+flat out float fragDotType;
 
-float DOT_SCALE = 0.15;
-float NORMAL_OFFSET = 0.01;
-float DOT_FADE_TIME = 30.0;
+// NORMAL_OFFSET is defined by the canvas
 
 float quadEasing(float time) {
   return pow(time, 4.0);
@@ -37,9 +41,9 @@ void main() {
   vec3 forward = normalize(cross(up, right));
   mat3 orientation = mat3(right, up, forward);
 
-  float dotFade = 1.0 - quadEasing((time - dotTime) / DOT_FADE_TIME);
+  float dotFade = 1.0 - quadEasing((time - dotTime) / dotLifetime);
   
-  vec3 worldPosition = dotPos + (orientation * vertexPos) * DOT_SCALE; // scale up normal offset as distance increases
+  vec3 worldPosition = dotPos + (orientation * vertexPos) * dotSize; // scale up normal offset as distance increases
   vec3 normalAddition = dotNormal * NORMAL_OFFSET * distance(worldPosition, lightSource) / 4.0 * (dotFade + 1.0) / 2.0;
   vec3 finalPosition = worldPosition + normalAddition;
   
@@ -48,4 +52,6 @@ void main() {
   fragPosition = worldPosition;
   fragNormal = up;
   fragFadeScale = dotFade;
+  fragDotColor = dotColor;
+  fragDotType = dotType;
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+#version 300 es
+precision highp float;
+
+in vec2 uv;
+
+uniform sampler2D source;
+uniform float time;
+uniform float reducedFlashing;
+
+out vec4 fragColor;
+
+// GRAIN_AMOUNT is defined by the canvas
+
+#include "chunks/noise.glsl"
+
+void main() {
+  // Change the grain slower and with less contrast when reducing flashing
+  float noiseTime = mix(time, floor(time * 2.0), reducedFlashing);
+  float grain = (staticNoise(vec3(gl_FragCoord.xy, noiseTime)) - 0.5) * GRAIN_AMOUNT * (1.0 - reducedFlashing * 0.5);
+
+  fragColor = vec4(texture(source, uv).rgb + grain, 1.0);
+}
\ No newline at end of file
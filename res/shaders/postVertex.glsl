@@ -3,6 +3,9 @@ precision highp float;
 
 in vec2 vertexPos;
 
+out vec2 uv;
+
 void main() {
   gl_Position = vec4(vertexPos, 0.0, 1.0);
+  uv = vertexPos * 0.5 + 0.5;
 }
\ No newline at end of file
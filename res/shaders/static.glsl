@@ -0,0 +1,22 @@
+#version 300 es
+precision highp float;
+
+in vec2 uv;
+
+uniform sampler2D source;
+uniform float time;
+uniform float reducedFlashing;
+uniform float intensity;
+
+out vec4 fragColor;
+
+#include "chunks/noise.glsl"
+
+void main() {
+  // Change the static slower and with less contrast when reducing flashing
+  float noiseTime = mix(time, floor(time * 2.0), reducedFlashing);
+  float noise = staticNoise(vec3(gl_FragCoord.xy / 2.0, noiseTime));
+  noise = mix(noise, 0.3 + noise * 0.2, reducedFlashing);
+
+  fragColor = vec4(mix(texture(source, uv).rgb, vec3(noise), intensity), 1.0);
+}
\ No newline at end of file
@@ -0,0 +1,17 @@
+#version 300 es
+precision mediump float;
+
+in vec2 uv;
+
+uniform sampler2D source;
+uniform float strength;
+
+out vec4 fragColor;
+
+void main() {
+  // Close in from the edges of the screen as the strength increases
+  float edgeDistance = length(uv - 0.5) * 2.0;
+  float darkness = smoothstep(1.2 - strength * 0.8, 1.4 - strength * 0.6, edgeDistance) * strength;
+
+  fragColor = vec4(texture(source, uv).rgb * (1.0 - darkness), 1.0);
+}
\ No newline at end of file
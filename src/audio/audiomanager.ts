@@ -1,60 +1,229 @@
+import { Camera } from "../rendering/camera.js";
 import { Entity } from "../entity/entity.js";
 import { Game } from "../core/game.js";
-import { EventConnection } from "../util/gameevent.js";
+import { EventConnection, GameEvent } from "../util/gameevent.js";
+import { AudioBus, DuckRule, Mixer } from "./mixer.js";
+import { Settings } from "../core/settings.js";
 import { Util } from "../util/util.js";
+import { Vector3 } from "../math/vector3.js";
 
-type AudioName = "menu" | "click" | "ambience" | "footstep" | "scanning" | "heartbeat" | "aggression" | "static";
-
-interface AudioInfo {
-  name: AudioName,
+/** Defines a sound listed in the audio manifest. */
+interface AudioAsset {
+  /** The candidate files in order of preference, the first playable one being loaded. */
+  files: string[],
+  bus: AudioBus,
   volume: number,
   looped: boolean,
   range?: number,
-  frequency?: number
+  frequency?: number,
+  /** Whether or not spatial emissions are muffled when geometry blocks them from the listener. */
+  occlusion?: boolean,
+  /** Whether or not the sound is loaded on startup rather than on demand by the levels using it. */
+  preload?: boolean
+}
+
+/** Defines the audio manifest, mapping sound names to their assets. */
+interface AudioManifest {
+  sounds: Record<string, AudioAsset>
 }
 
 /** Manages and loads game sounds. */
 export class AudioManager {
-  private readonly AUDIO_INFO: AudioInfo[] = [
-    { name: "menu", volume: 1, looped: true },
-    { name: "click", volume: 1, looped: false },
-    { name: "ambience", volume: 0.5, looped: true },
-    { name: "footstep", volume: 3.5, looped: false, frequency: 0.8 },
-    { name: "scanning", volume: 1.2, looped: true },
-    { name: "heartbeat", volume: 0.8, looped: false, frequency: 1.5 },
-    { name: "aggression", volume: 4, looped: false, range: 100 },
-    { name: "static", volume: 1.5, looped: true }
-  ]
+  private readonly MANIFEST_PATH: string = "res/audio/manifest.json";
+
+  /** The mime types of the supported audio file extensions. */
+  private readonly MIME_TYPES: Record<string, string> = {
+    mp3: "audio/mpeg",
+    ogg: "audio/ogg",
+    wav: "audio/wav",
+    m4a: "audio/mp4",
+    webm: "audio/webm"
+  };
+
+  /** Turn the ambience and music down while a monster screams. */
+  private readonly DUCK_RULES: DuckRule[] = [
+    { trigger: "aggression", bus: "ambience", volume: 0.2 },
+    { trigger: "aggression", bus: "music", volume: 0.4 }
+  ];
 
   private context: AudioContext = new AudioContext();
 
-  private audios: Map<AudioName, AudioEffect> = new Map();
+  public readonly mixer: Mixer = new Mixer(this.context);
+
+  private assets: Map<string, AudioAsset> = new Map();
+  private manifestPromise?: Promise<void>;
+
+  /** The load promise of every requested sound, so each is only loaded once. */
+  private loads: Map<string, Promise<void>> = new Map();
+
+  private audios: Map<string, AudioEffect> = new Map();
 
-  /** Intializes and loads all game audios. */
+  /** Loads the audio manifest and the sounds it marks for preloading. */
   public async init(): Promise<void> {
-    const promises: Promise<void>[] = [];
+    await this.loadManifest();
+
+    const preloads: string[] = Array.from(this.assets.keys()).filter((name: string) => this.assets.get(name)!.preload);
+
+    await this.load(preloads);
+  }
+
+  /**
+   * Loads the audio manifest if it has not been loaded yet.
+   * @returns A promise, resolving once the manifest loads.
+   */
+  private loadManifest(): Promise<void> {
+    if (!this.manifestPromise) {
+      this.manifestPromise = Util.loadFile(this.MANIFEST_PATH).then(async (response: Response) => {
+        const manifest: AudioManifest = await response.json();
+
+        for (const name of Object.keys(manifest.sounds)) this.assets.set(name, manifest.sounds[name]);
+
+      }).catch((error: unknown) => {
+        delete this.manifestPromise; // Allow retrying the manifest
+        throw error;
+      });
 
-    for (let i: number = 0; i < this.AUDIO_INFO.length; i++) {
-      promises[i] = this.loadAudio(this.AUDIO_INFO[i]);
+      Game.instance.loadTracker.track(this.manifestPromise);
     }
 
+    return this.manifestPromise;
+  }
+
+  /**
+   * Loads sounds from the manifest, skipping any already loaded or loading.
+   * @param names The sound names.
+   * @returns A promise, resolving once every sound loads.
+   */
+  public async load(names: string[]): Promise<void> {
+    await this.loadManifest();
+
+    const promises: Promise<void>[] = names.map((name: string) => {
+      let promise: Promise<void> | undefined = this.loads.get(name);
+
+      if (!promise) {
+        promise = Game.instance.loadTracker.track(this.loadAudio(name));
+        this.loads.set(name, promise);
+      }
+
+      return promise;
+    });
+
     await Promise.all(promises);
   }
 
   /**
-   * 
-   * @param info The audio info.
+   * Loads a sound and creates its audio effect on its bus, falling back on silence if none of its files load.
+   * @param name The sound name.
    * @returns A promise, resolving once the audio loads.
    */
-  private async loadAudio(info: AudioInfo): Promise<void> {
-    const path: string = `res/audio/${info.name}.mp3`;
-    const audioFile: Response = await Util.loadFile(path);
-    const arrayBuffer: ArrayBuffer = await audioFile.arrayBuffer();
-    const buffer: AudioBuffer = await this.context.decodeAudioData(arrayBuffer);
+  private async loadAudio(name: string): Promise<void> {
+    const asset: AudioAsset | undefined = this.assets.get(name);
+    if (!asset) throw new Error(`Audio does not exist in the manifest: ${name}`);
+
+    let buffer: AudioBuffer;
+
+    try {
+      buffer = await this.decodeFiles(asset.files);
+
+    } catch (error) {
+      console.warn(`Failed to load audio ${name}, using silence instead.`, error);
+
+      buffer = this.context.createBuffer(1, 1, this.context.sampleRate);
+    }
 
     // Create and add the audio effect to the map
-    const effect: AudioEffect = new AudioEffect(this.context, buffer, info.volume, info.looped, info.range, info.frequency);
-    this.audios.set(info.name, effect);
+    const effect: AudioEffect = new AudioEffect(this.context, this.mixer.getInput(asset.bus), buffer, asset.volume, asset.looped, asset.range, asset.frequency, asset.occlusion);
+    this.audios.set(name, effect);
+
+    // Duck buses for as long as each emission of the effect plays
+    for (const rule of this.DUCK_RULES) {
+      if (rule.trigger !== name) continue;
+
+      effect.emitted.connect((emission: AudioEmission) => {
+        emission.started.connect(() => {
+          const unduck: () => void = this.mixer.duck(rule.bus, rule.volume);
+          emission.ended.connect(unduck);
+        });
+      });
+    }
+  }
+
+  /**
+   * Decodes the first of the candidate files that the browser can play and that loads.
+   * @param files The candidate file paths.
+   * @returns A promise returning the decoded audio buffer.
+   */
+  private async decodeFiles(files: string[]): Promise<AudioBuffer> {
+    const tester: HTMLAudioElement = document.createElement("audio");
+    let lastError: unknown = new Error(`No playable audio format: ${files.join(", ")}`);
+
+    for (const path of files) {
+      const mimeType: string | undefined = this.MIME_TYPES[path.split(".").pop()!.toLowerCase()];
+
+      if (mimeType && tester.canPlayType(mimeType) === "") continue; // Skip formats the browser cannot play
+
+      try {
+        const audioFile: Response = await Util.loadFile(path);
+        const arrayBuffer: ArrayBuffer = await audioFile.arrayBuffer();
+
+        return await this.context.decodeAudioData(arrayBuffer);
+
+      } catch (error) {
+        lastError = error; // Try the next file
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Sets the master and bus volumes from the settings.
+   * @param settings The game settings.
+   */
+  public applySettings(settings: Settings): void {
+    this.mixer.setVolume("master", settings.get("masterVolume"));
+    this.mixer.setVolume("music", settings.get("musicVolume"));
+    this.mixer.setVolume("ambience", settings.get("ambienceVolume"));
+    this.mixer.setVolume("sfx", settings.get("sfxVolume"));
+  }
+
+  /**
+   * Moves the audio listener to the camera's position and rotation.
+   * @param camera The camera.
+   */
+  public updateListener(camera: Camera): void {
+    const listener: AudioListener = this.context.listener;
+    const position: Vector3 = camera.position;
+    const forward: Vector3 = camera.rotation.lookVector;
+    const up: Vector3 = camera.rotation.upVector;
+
+    if (listener.positionX) {
+      listener.positionX.value = position.x;
+      listener.positionY.value = position.y;
+      listener.positionZ.value = position.z;
+
+      listener.forwardX.value = forward.x;
+      listener.forwardY.value = forward.y;
+      listener.forwardZ.value = forward.z;
+
+      listener.upX.value = up.x;
+      listener.upY.value = up.y;
+      listener.upZ.value = up.z;
+
+    } else { // Fall back on the deprecated setters for browsers without listener audio params
+      listener.setPosition(position.x, position.y, position.z);
+      listener.setOrientation(forward.x, forward.y, forward.z, up.x, up.y, up.z);
+    }
+  }
+
+  /** Suspends the audio context, pausing every playing sound. */
+  public async suspend(): Promise<void> {
+    await this.context.suspend();
+  }
+
+  /** Resumes the audio context, continuing every paused sound. */
+  public async resume(): Promise<void> {
+    await this.context.resume();
   }
 
   /**
@@ -62,36 +231,47 @@ export class AudioManager {
    * @param name The audio name.
    * @returns The audio effect.
    */
-  public get(name: AudioName): AudioEffect {
-    return this.audios.get(name)!;
+  public get(name: string): AudioEffect {
+    const effect: AudioEffect | undefined = this.audios.get(name);
+
+    if (!effect) throw new Error(`Audio has not been loaded: ${name}`); // Throw error if the audio is not loaded
+
+    return effect;
   }
 }
 
 /** Represents an audio effect and manages creation of emitters and emissions. */
 export class AudioEffect {
+  /** Fired with every new emission of the effect, before it starts playing. */
+  public readonly emitted: GameEvent = new GameEvent();
+
   private defaultGain: GainNode;
 
   /**
    * Creates an audio effect from the specified parameters.
    * @param context The audio context.
+   * @param output The bus the effect plays through.
    * @param buffer The audio array buffer.
    * @param defaultVolume The default audio volume.
    * @param looped Whether or not it should loop.
    * @param range The audio roll off range.
    * @param emitFrequency The emit frequency for emitters.
+   * @param occlusion Whether or not spatial emissions are muffled when occluded.
    */
   constructor(
     private context: AudioContext,
+    output: AudioNode,
     private buffer: AudioBuffer,
     defaultVolume: number = 1,
     private looped: boolean = false,
     private range: number = 0,
-    private emitFrequency: number = 1
+    private emitFrequency: number = 1,
+    private occlusion: boolean = false
   ) {
     // Create default gain node for the default volume
     this.defaultGain = this.context.createGain();
     this.defaultGain.gain.value = defaultVolume;
-    this.defaultGain.connect(this.context.destination);
+    this.defaultGain.connect(output);
   }
 
   /**
@@ -108,9 +288,7 @@ export class AudioEffect {
    * @returns The audio emission.
    */
   public emit(autoPlay?: boolean): AudioEmission {
-    // Create and connect the gain node for the emission
-    const gainNode: GainNode = this.context.createGain();
-    gainNode.connect(this.defaultGain);
+    const gainNode: GainNode = this.context.createGain(); // Create the gain node for the emission
 
     // Create and connect the source node for the emission
     const source: AudioBufferSourceNode = this.context.createBufferSource();
@@ -118,12 +296,23 @@ export class AudioEffect {
     source.buffer = this.buffer;
     source.connect(gainNode);
 
-    return new AudioEmission(source, gainNode, this.range, autoPlay);
+    const emission: AudioEmission = new AudioEmission(this.context, source, gainNode, this.defaultGain, this.range, this.occlusion);
+    this.emitted.fire(emission);
+
+    if (autoPlay) emission.play();
+
+    return emission;
   }
 }
 
 /** Handles routine emission of an audio effect. */
 export class AudioEmitter {
+  /** Fired with the volume scale every time the emitter emits its audio. */
+  public readonly emitted: GameEvent = new GameEvent();
+
+  /** The entity the emitter's audio is positioned at, if any. */
+  public subject?: Entity;
+
   private volumeScale: number = 1;
   private frequencyScale: number = 1;
 
@@ -152,6 +341,9 @@ export class AudioEmitter {
   private emitAudio(): void {
     const emission: AudioEmission = this.audio.emit(true);
     emission.volume = this.volumeScale; // Set the emission's volume scale to the emitter's volume scale.
+    if (this.subject) emission.subject = this.subject;
+
+    this.emitted.fire(this.volumeScale);
   }
 
   /** Starts the emission loop of the audio emitter. */
@@ -198,63 +390,115 @@ export class AudioEmitter {
   }
 }
 
-/** Handles playing and stopping audio. */
+/** Handles playing and stopping audio, positioning it in the world if it has a subject. */
 export class AudioEmission {
+  /** The low pass cutoff frequencies when the audio is unblocked and occluded. */
+  private readonly OPEN_FREQUENCY: number = 20000;
+  private readonly OCCLUDED_FREQUENCY: number = 700;
+  private readonly OCCLUSION_TRANSITION_TIME: number = 0.1;
+
+  /** Fired once the audio starts playing. */
+  public readonly started: GameEvent = new GameEvent();
+  /** Fired once the audio finishes or is stopped. */
+  public readonly ended: GameEvent = new GameEvent();
+
   private volumeScale: number = 1;
 
   private _subject?: Entity;
   private updateConnection?: EventConnection;
 
+  private panner?: PannerNode;
+  private occlusionFilter?: BiquadFilterNode;
+
+  /**
+   * Creates an audio emission and connects it to its effect.
+   * @param context The audio context.
+   * @param source The audio source node.
+   * @param gainNode The emission gain node.
+   * @param output The effect node the emission plays through.
+   * @param range The distance the audio can be heard from once positioned.
+   * @param occlusion Whether or not the audio is muffled when occluded once positioned.
+   */
   constructor(
+    private context: AudioContext,
     private source: AudioBufferSourceNode,
     private gainNode: GainNode,
+    private output: AudioNode,
     private range: number,
-    autoPlay?: boolean
+    private occlusion: boolean
   ) {
+    this.gainNode.connect(this.output);
+
     this.source.addEventListener("ended", () => {
       this.cleanup();
 
     }, { once: true });
-
-    if (autoPlay) this.play();
   }
 
   /** Sets the volume of the gain node. */
   public set volume(scale: number) {
     this.volumeScale = Math.max(scale, 0);
-    this.updateVolume();
+    this.gainNode.gain.value = this.volumeScale;
   }
 
-  /** Sets the subject for range roll off. */
+  /** Sets the subject to position the audio at, making the emission spatial. */
   public set subject(entity: Entity | undefined) {
     this._subject = entity;
 
     if (!this._subject && this.updateConnection) {
       this.updateConnection.disconnect();
+      delete this.updateConnection;
 
     } else if (this._subject && !this.updateConnection) {
+      if (!this.panner) this.createSpatialNodes();
+
+      this.updatePosition();
+
       this.updateConnection = Game.instance.lastStep.connect(() => {
-        this.updateVolume();
+        this.updatePosition();
       });
     }
   }
 
-  /** Updates the audio's volume based on the volume scale and distance from subject. */
-  private updateVolume(): void {
-    let volume = this.volumeScale;
+  /** Routes the emission through a panner and an occlusion low pass filter. */
+  private createSpatialNodes(): void {
+    // Roll off linearly to silence at the range, ignoring distance if the effect has no range
+    this.panner = new PannerNode(this.context, {
+      panningModel: "HRTF",
+      distanceModel: "linear",
+      refDistance: 1,
+      maxDistance: this.range > 1 ? this.range : 10000,
+      rolloffFactor: this.range > 1 ? 1 : 0
+    });
 
-    if (this._subject) {
-      const distance: number = Game.instance.camera.position.subtract(this._subject!.position).magnitude;
+    this.occlusionFilter = new BiquadFilterNode(this.context, { type: "lowpass", frequency: this.OPEN_FREQUENCY });
 
-      volume *= Math.max(1 - distance / this.range, 0);
-    }
+    this.gainNode.disconnect();
+    this.gainNode.connect(this.panner).connect(this.occlusionFilter).connect(this.output);
+  }
+
+  /** Moves the panner to the subject and muffles the audio if geometry blocks it from the listener. */
+  private updatePosition(): void {
+    if (!this._subject || !this.panner || !this.occlusionFilter) return;
+
+    const position: Vector3 = this._subject.position;
+
+    this.panner.positionX.value = position.x;
+    this.panner.positionY.value = position.y;
+    this.panner.positionZ.value = position.z;
 
-    this.gainNode.gain.value = volume;
+    if (this.occlusion) {
+      const occluded: boolean = Game.instance.bvh.isOccluded(Game.instance.camera.position, position);
+      const frequency: number = occluded ? this.OCCLUDED_FREQUENCY : this.OPEN_FREQUENCY;
+
+      this.occlusionFilter.frequency.setTargetAtTime(frequency, this.context.currentTime, this.OCCLUSION_TRANSITION_TIME);
+    }
   }
 
   /** Plays the audio. */
   public play(): void {
     this.source.start();
+    this.started.fire();
   }
 
   /** Stops and destroys the audio. */
@@ -267,6 +511,11 @@ export class AudioEmission {
     this.gainNode.disconnect();
     this.source.disconnect();
 
+    if (this.panner) this.panner.disconnect();
+    if (this.occlusionFilter) this.occlusionFilter.disconnect();
+
     if (this.updateConnection) this.updateConnection.disconnect();
+
+    this.ended.fire();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,114 @@
+/** The mixer buses sounds are routed through, each with its own volume. */
+export type AudioBus = "music" | "ambience" | "sfx";
+
+/** Every bus, all feeding into the master bus. */
+export const AUDIO_BUSES: AudioBus[] = ["music", "ambience", "sfx"];
+
+/** Defines a bus that is turned down while any sound of a trigger audio plays. */
+export interface DuckRule {
+  /** The name of the audio that causes the ducking. */
+  trigger: string,
+  bus: AudioBus,
+  /** The volume scale of the bus while ducked. */
+  volume: number
+}
+
+/** Represents a bus's gain stages, the user volume followed by the ducking volume. */
+interface BusNodes {
+  volumeGain: GainNode,
+  duckGain: GainNode,
+  /** The ducking volume of every active duck, each removed once its sound ends. */
+  ducks: number[]
+}
+
+/** Routes the buses through a master gain and compressor, handling bus volumes and ducking. */
+export class Mixer {
+  /** The time constants of the ducking volume transitions. */
+  private readonly DUCK_ATTACK: number = 0.05;
+  private readonly DUCK_RELEASE: number = 0.6;
+
+  private masterGain: GainNode;
+  private compressor: DynamicsCompressorNode;
+
+  private buses: Map<AudioBus, BusNodes> = new Map();
+
+  /**
+   * Creates the master and bus nodes.
+   * @param context The audio context.
+   */
+  constructor(private context: AudioContext) {
+    // Compress the master output to keep loud overlapping sounds from clipping
+    this.compressor = this.context.createDynamicsCompressor();
+    this.compressor.threshold.value = -12;
+    this.compressor.knee.value = 12;
+    this.compressor.ratio.value = 4;
+    this.compressor.connect(this.context.destination);
+
+    this.masterGain = this.context.createGain();
+    this.masterGain.connect(this.compressor);
+
+    for (const bus of AUDIO_BUSES) {
+      const volumeGain: GainNode = this.context.createGain();
+      const duckGain: GainNode = this.context.createGain();
+
+      volumeGain.connect(duckGain);
+      duckGain.connect(this.masterGain);
+
+      this.buses.set(bus, { volumeGain, duckGain, ducks: [] });
+    }
+  }
+
+  /**
+   * Gets the node sounds on a bus connect to.
+   * @param bus The bus name.
+   * @returns The bus input node.
+   */
+  public getInput(bus: AudioBus): AudioNode {
+    return this.buses.get(bus)!.volumeGain;
+  }
+
+  /**
+   * Sets the volume of a bus or the master bus.
+   * @param bus The bus name.
+   * @param volume The volume scale.
+   */
+  public setVolume(bus: AudioBus | "master", volume: number): void {
+    const gain: GainNode = bus === "master" ? this.masterGain : this.buses.get(bus)!.volumeGain;
+
+    gain.gain.value = Math.max(volume, 0);
+  }
+
+  /**
+   * Ducks a bus until the returned function is called, using the lowest volume of its active ducks.
+   * @param bus The bus name.
+   * @param volume The ducked volume scale.
+   * @returns A function which removes the duck.
+   */
+  public duck(bus: AudioBus, volume: number): () => void {
+    const nodes: BusNodes = this.buses.get(bus)!;
+
+    nodes.ducks.push(volume);
+    this.updateDuck(nodes, this.DUCK_ATTACK);
+
+    let removed: boolean = false;
+
+    return () => {
+      if (removed) return;
+      removed = true;
+
+      nodes.ducks.splice(nodes.ducks.indexOf(volume), 1);
+      this.updateDuck(nodes, this.DUCK_RELEASE);
+    };
+  }
+
+  /**
+   * Transitions a bus's ducking volume to the lowest of its active ducks.
+   * @param nodes The bus nodes.
+   * @param timeConstant The transition time constant.
+   */
+  private updateDuck(nodes: BusNodes, timeConstant: number): void {
+    const volume: number = Math.min(1, ...nodes.ducks);
+
+    nodes.duckGain.gain.setTargetAtTime(volume, this.context.currentTime, timeConstant);
+  }
+}
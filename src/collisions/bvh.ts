@@ -25,6 +25,11 @@ class BVHNode {
 export class BVH {
   private root: BVHNode;
 
+  /** Returns the bounds containing all of the BVH's triangles. */
+  public get bounds(): Bounds {
+    return this.root.bounds;
+  }
+
   /**
    * Creates the BVH from a list of models.
    * @param models The model list.
@@ -130,15 +135,16 @@ export class BVH {
   /**
    * Raycasts through the BVH, returning the first intersection if any.
    * @param ray The specified ray.
+   * @param maxDistance The maximum distance along the ray to check, defaulting to infinity.
    * @returns The raycast info or undefined.
    */
-  public raycast(ray: Ray): RaycastInfo | undefined {
+  public raycast(ray: Ray, maxDistance: number = Infinity): RaycastInfo | undefined {
     const possibleTriangles: Triangle[] = this.getCandidateTriangles((nodeBounds: Bounds) => {
-      return ray.intersectsBounds(nodeBounds);
+      return ray.intersectsBounds(nodeBounds, maxDistance);
     });
 
     let intersection: boolean = false;
-    let minT: number = Infinity;
+    let minT: number = maxDistance;
     let minNormal: Vector3 = Vector3.zero;
 
     // Loop through the triangles and determine the first intersection
@@ -159,6 +165,22 @@ export class BVH {
     };
   }
 
+  /**
+   * Determines whether or not any geometry lies between two points.
+   * @param from The first point.
+   * @param to The second point.
+   * @returns True if the line between them is blocked, false if otherwise.
+   */
+  public isOccluded(from: Vector3, to: Vector3): boolean {
+    const difference: Vector3 = to.subtract(from);
+
+    // Check both directions since rays ignore back faces
+    if (this.raycast(new Ray(from, difference.unit), difference.magnitude)) return true;
+    if (this.raycast(new Ray(to, difference.unit.multiply(-1)), difference.magnitude)) return true;
+
+    return false;
+  }
+
   /**
    * Filters through the BVH and returns a list of the capsule's collisions.
    * @param hitbox The capsule hitbox.
@@ -2,6 +2,32 @@ import { Matrix4 } from "../math/matrix4.js";
 import { Util } from "../util/util.js";
 import { Vector3 } from "../math/vector3.js";
 
+/** Classifies surfaces by their normals for floor and wall handling. */
+export class Surface {
+  /** The maximum angle a normal can make with the vertical axis for its surface to count as a floor or ceiling. */
+  public static readonly MAX_VERTICAL_SLOPE: number = 80 * Math.PI / 180;
+
+  /**
+   * Determines whether or not a surface normal belongs to a floor or ceiling.
+   * @param normal The surface normal.
+   * @returns True if the surface is a floor or ceiling, false if it is a wall.
+   */
+  public static isVertical(normal: Vector3): boolean {
+    const angle: number = Math.acos(normal.dot(Vector3.y));
+
+    return angle <= Surface.MAX_VERTICAL_SLOPE || angle >= Math.PI - Surface.MAX_VERTICAL_SLOPE;
+  }
+
+  /**
+   * Determines whether or not a surface normal belongs to a walkable floor.
+   * @param normal The surface normal.
+   * @returns True if the surface can be walked on, false if otherwise.
+   */
+  public static isFloor(normal: Vector3): boolean {
+    return Math.acos(normal.dot(Vector3.y)) <= Surface.MAX_VERTICAL_SLOPE;
+  }
+}
+
 /** Represents a line in 3d space. */
 export class Line {
   public readonly direction: Vector3;
@@ -30,6 +56,42 @@ export class Line {
     return this.start.add(this.direction.unit.multiply(t));
   }
 
+  /**
+   * Gets the closest pair of points between the line and another line.
+   * @param line The other line.
+   * @returns A tuple consisting of:
+   * - The closest point on this line.
+   * - The closest point on the other line.
+   */
+  public closestPointsTo(line: Line): [Vector3, Vector3] {
+    const offset: Vector3 = this.start.subtract(line.start);
+
+    const lengthSquared: number = this.direction.dot(this.direction);
+    const otherLengthSquared: number = line.direction.dot(line.direction);
+    const directionDot: number = this.direction.dot(line.direction);
+    const offsetDot: number = this.direction.dot(offset);
+    const otherOffsetDot: number = line.direction.dot(offset);
+
+    // Treat zero length lines as points
+    if (lengthSquared === 0 && otherLengthSquared === 0) return [this.start, line.start];
+    if (lengthSquared === 0) return [this.start, line.closestPointTo(this.start)];
+    if (otherLengthSquared === 0) return [this.closestPointTo(line.start), line.start];
+
+    // Get the closest point on this line to the other infinite line, using any point if they are parallel
+    const denominator: number = lengthSquared * otherLengthSquared - directionDot * directionDot;
+    let s: number = denominator !== 0 ? Util.clamp((directionDot * otherOffsetDot - offsetDot * otherLengthSquared) / denominator, 0, 1) : 0;
+
+    // Get the closest point on the other line to it, then reproject onto this line if it was clamped
+    let t: number = (directionDot * s + otherOffsetDot) / otherLengthSquared;
+
+    if (t < 0 || t > 1) {
+      t = Util.clamp(t, 0, 1);
+      s = Util.clamp((directionDot * t - offsetDot) / lengthSquared, 0, 1);
+    }
+
+    return [this.start.add(this.direction.multiply(s)), line.start.add(line.direction.multiply(t))];
+  }
+
   /**
    * Gets the intersection point of the line with a plane.
    * @param planePoint A point on the plane.
@@ -140,6 +202,8 @@ export class Triangle {
 
 /** Manages ray information and methods. */
 export class Ray {
+  private static readonly AXES: ("x" | "y" | "z")[] = ["x", "y", "z"];
+
   constructor(
     public readonly origin: Vector3,
     public readonly direction: Vector3
@@ -157,16 +221,15 @@ export class Ray {
   /**
    * Determines whether or not the ray intersects with specified bounds.
    * @param bounds The specified bounds.
+   * @param maxDistance The maximum distance along the ray, defaulting to infinity.
    * @returns True if it intersects, false if otherwise.
    */
-  public intersectsBounds(bounds: Bounds): boolean {
-    const axes: ("x" | "y" | "z")[] = ["x", "y", "z"];
-
+  public intersectsBounds(bounds: Bounds, maxDistance: number = Infinity): boolean {
     let tEntry: number = -Infinity;
     let tExit: number = Infinity;
 
     // Loop through the axes
-    for (const axis of axes) {
+    for (const axis of Ray.AXES) {
       const axisOrigin: number = this.origin[axis];
       const axisDir: number = this.direction[axis];
       const axisMin: number = bounds.min[axis];
@@ -190,9 +253,58 @@ export class Ray {
       }
     }
 
+    if (tExit < 0 || tEntry > maxDistance) return false; // The bounds are behind the ray or out of its range
+
     return true;
   }
 
+  /**
+   * Gets where the ray enters specified bounds.
+   * @param bounds The specified bounds.
+   * @param maxDistance The maximum distance along the ray, defaulting to infinity.
+   * @returns The tuple intersection info, if it occurs, consisting of:
+   * - The intersection time, zero if the origin is within the bounds.
+   * - The normal of the face the ray entered through, or the reverse ray direction if the origin is within the bounds.
+   */
+  public getBoundsIntersection(bounds: Bounds, maxDistance: number = Infinity): [number, Vector3] | undefined {
+    let tEntry: number = -Infinity;
+    let tExit: number = Infinity;
+    let entryNormal: Vector3 = this.direction.unit.multiply(-1);
+
+    for (const axis of Ray.AXES) {
+      const axisOrigin: number = this.origin[axis];
+      const axisDir: number = this.direction[axis];
+
+      if (axisDir === 0) {
+        if (axisOrigin < bounds.min[axis] || axisOrigin > bounds.max[axis]) return;
+
+        continue;
+      }
+
+      // Determine the entry and exit times of the ray with the axis planes of the bounds
+      const tMin: number = (bounds.min[axis] - axisOrigin) / axisDir;
+      const tMax: number = (bounds.max[axis] - axisOrigin) / axisDir;
+      const tNear: number = Math.min(tMin, tMax);
+
+      if (tNear > tEntry) {
+        tEntry = tNear;
+
+        // The ray enters through the minimum face if it moves in the positive direction
+        entryNormal = new Vector3(axis === "x" ? -Math.sign(axisDir) : 0, axis === "y" ? -Math.sign(axisDir) : 0, axis === "z" ? -Math.sign(axisDir) : 0);
+      }
+
+      tExit = Math.min(tExit, Math.max(tMin, tMax));
+
+      if (tEntry > tExit) return; // If it enters before it exits at any point, no collision
+    }
+
+    if (tExit < 0 || tEntry > maxDistance) return; // The bounds are behind the ray or out of its range
+
+    if (tEntry < 0) return [0, this.direction.unit.multiply(-1)]; // The origin starts within the bounds
+
+    return [tEntry, entryNormal];
+  }
+
   /**
    * Performs a triangle intersection test with the ray using the moller trumbore algorithm.
    * @param triangle The specified triangle/
@@ -223,10 +335,105 @@ export class Ray {
 
     return t;
   }
+
+  /**
+   * Performs a sphere intersection test with the ray, ignoring spheres containing the origin.
+   * @param center The sphere center.
+   * @param radius The sphere radius.
+   * @returns The intersection time of the ray entering the sphere, if it occurs.
+   */
+  public getSphereIntersection(center: Vector3, radius: number): number | undefined {
+    const offset: Vector3 = this.origin.subtract(center);
+
+    // Solve the quadratic for the distances where the ray is the radius away from the center
+    const a: number = this.direction.dot(this.direction);
+    const b: number = offset.dot(this.direction);
+    const c: number = offset.dot(offset) - radius * radius;
+    const discriminant: number = b * b - a * c;
+
+    if (discriminant < 0) return; // The ray misses the sphere
+
+    const t: number = (-b - Math.sqrt(discriminant)) / a;
+
+    if (t < 0) return; // The sphere is behind the ray or contains its origin
+
+    return t;
+  }
+}
+
+/** Manages properties and methods of a sphere collision object. */
+export class Sphere {
+  public readonly bounds: Bounds;
+
+  /**
+   * Creates a sphere from a center and radius.
+   * @param center The sphere center.
+   * @param radius The sphere radius.
+   */
+  constructor(
+    public readonly center: Vector3,
+    public readonly radius: number
+  ) {
+    this.bounds = Bounds.fromPoints([center], radius);
+  }
+
+  /**
+   * Gets the intersection between the sphere and a ray entering it from outside.
+   * @param ray The specified ray.
+   * @returns The tuple intersection info, if it occurs, consisting of:
+   * - The intersection time.
+   * - The sphere's surface normal at the intersection point.
+   */
+  public getRayIntersection(ray: Ray): [number, Vector3] | undefined {
+    const t: number | undefined = ray.getSphereIntersection(this.center, this.radius);
+    if (t === undefined) return;
+
+    return [t, ray.getPoint(t).subtract(this.center).unit];
+  }
+
+  /**
+   * Gets the intersection between the sphere and another sphere.
+   * @param sphere The other sphere.
+   * @returns The tuple collision info, consisting of:
+   * - A boolean, true if there is a collision, false if otherwise.
+   * - The normal vector pushing this sphere away from the other.
+   * - The overlap amount between the spheres along the normal axis.
+   */
+  public getSphereIntersection(sphere: Sphere): [boolean, Vector3?, number?] {
+    const offset: Vector3 = this.center.subtract(sphere.center);
+    const overlap: number = this.radius + sphere.radius - offset.magnitude;
+
+    if (overlap < 0) return [false];
+
+    return [true, offset.magnitude === 0 ? Vector3.y : offset.unit, overlap];
+  }
+
+  /**
+   * Sweeps the sphere along a displacement, finding when it first touches another sphere.
+   * @param displacement The displacement of the sweep.
+   * @param sphere The other sphere.
+   * @returns The tuple sweep info, if they touch, consisting of:
+   * - The fraction of the displacement travelled before touching, zero if already overlapping.
+   * - The normal vector pushing this sphere away from the other at the point of contact.
+   */
+  public sweep(displacement: Vector3, sphere: Sphere): [number, Vector3] | undefined {
+    const [overlapping, normal]: [boolean, Vector3?, number?] = this.getSphereIntersection(sphere);
+    if (overlapping) return [0, normal!];
+
+    // Sweeping a sphere into another is a ray into a sphere with their combined radii
+    const t: number | undefined = new Ray(this.center, displacement).getSphereIntersection(sphere.center, this.radius + sphere.radius);
+    if (t === undefined || t > 1) return;
+
+    return [t, this.center.add(displacement.multiply(t)).subtract(sphere.center).unit];
+  }
 }
 
 /** Manages properties and methods of a capsule collision object. */
 export class Capsule {
+  /** The maximum number of steps of a sweep, and the distance at which it counts as touching. */
+  private static readonly MAX_SWEEP_STEPS: number = 32;
+  private static readonly SWEEP_TOLERANCE: number = 0.001;
+
   private tStart: Vector3;
   private tEnd: Vector3;
   private line: Line;
@@ -252,6 +459,11 @@ export class Capsule {
     return this._bounds;
   }
 
+  /** Returns the untransformed offset from the capsule's origin to its lowest point. */
+  public get bottomOffset(): Vector3 {
+    return this.start.subtract(Vector3.y.multiply(this.radius));
+  }
+
   /** Updates the transform and bounds of the capsule. */
   private updateTransform(): void {
     this.tStart = this._transformation.apply(this.start);
@@ -269,6 +481,115 @@ export class Capsule {
     this.updateTransform();
   }
 
+  /**
+   * Gets the intersection between the capsule and a ray entering it from outside.
+   * @param ray The specified ray.
+   * @returns The tuple intersection info, if it occurs, consisting of:
+   * - The intersection time.
+   * - The capsule's surface normal at the intersection point.
+   */
+  public getRayIntersection(ray: Ray): [number, Vector3] | undefined {
+    const axis: Vector3 = this.tEnd.subtract(this.tStart);
+    const offset: Vector3 = ray.origin.subtract(this.tStart);
+
+    const axisDot: number = axis.dot(axis);
+    const axisDirectionDot: number = axis.dot(ray.direction);
+    const axisOffsetDot: number = axis.dot(offset);
+
+    // Solve the quadratic for the distances where the ray is the radius away from the infinite cylinder around the axis
+    const a: number = axisDot * ray.direction.dot(ray.direction) - axisDirectionDot * axisDirectionDot;
+    const b: number = axisDot * offset.dot(ray.direction) - axisOffsetDot * axisDirectionDot;
+    const c: number = axisDot * offset.dot(offset) - axisOffsetDot * axisOffsetDot - this.radius * this.radius * axisDot;
+    const discriminant: number = b * b - a * c;
+
+    if (discriminant < 0) return; // The ray misses the cylinder, and so the whole capsule
+
+    if (a !== 0) {
+      const t: number = (-b - Math.sqrt(discriminant)) / a;
+      const axisProgress: number = axisOffsetDot + t * axisDirectionDot; // The projection of the hit onto the axis, scaled by the axis length squared
+
+      // Return the cylinder hit if it lies between the capsule's end spheres
+      if (axisProgress > 0 && axisProgress < axisDot) {
+        if (t < 0) return; // The capsule is behind the ray or contains its origin
+
+        const point: Vector3 = ray.getPoint(t);
+        const axisPoint: Vector3 = this.tStart.add(axis.multiply(axisProgress / axisDot));
+
+        return [t, point.subtract(axisPoint).unit];
+      }
+    }
+
+    // Otherwise the ray can only enter through one of the end spheres
+    let closestT: number | undefined;
+    let closestCenter: Vector3 = this.tStart;
+
+    for (const center of [this.tStart, this.tEnd]) {
+      const t: number | undefined = ray.getSphereIntersection(center, this.radius);
+
+      if (t !== undefined && (closestT === undefined || t < closestT)) {
+        closestT = t;
+        closestCenter = center;
+      }
+    }
+
+    if (closestT === undefined) return;
+
+    return [closestT, ray.getPoint(closestT).subtract(closestCenter).unit];
+  }
+
+  /**
+   * Gets the intersection between the capsule and another capsule.
+   * @param capsule The other capsule.
+   * @returns The tuple collision info, consisting of:
+   * - A boolean, true if there is a collision, false if otherwise.
+   * - The normal vector pushing this capsule away from the other.
+   * - The overlap amount between the capsules along the normal axis.
+   */
+  public getCapsuleIntersection(capsule: Capsule): [boolean, Vector3?, number?] {
+    const [point, otherPoint]: [Vector3, Vector3] = this.line.closestPointsTo(capsule.line);
+    const offset: Vector3 = point.subtract(otherPoint);
+    const overlap: number = this.radius + capsule.radius - offset.magnitude;
+
+    if (overlap < 0) return [false];
+
+    return [true, offset.magnitude === 0 ? Vector3.y : offset.unit, overlap];
+  }
+
+  /**
+   * Sweeps the capsule along a displacement, finding when it first touches another capsule.
+   * @param displacement The displacement of the sweep.
+   * @param capsule The other capsule.
+   * @returns The tuple sweep info, if they touch, consisting of:
+   * - The fraction of the displacement travelled before touching, zero if already overlapping.
+   * - The normal vector pushing this capsule away from the other at the point of contact.
+   * If the sweep runs out of steps while still closing in, the last fraction reached counts as the contact.
+   */
+  public sweep(displacement: Vector3, capsule: Capsule): [number, Vector3] | undefined {
+    const distance: number = displacement.magnitude;
+    let t: number = 0;
+    let normal: Vector3 = Vector3.y;
+
+    // Advance by the gap between the capsules each step, which can never move them past each other
+    for (let i = 0; i < Capsule.MAX_SWEEP_STEPS; i++) {
+      const offset: Vector3 = displacement.multiply(t);
+      const line: Line = new Line(this.tStart.add(offset), this.tEnd.add(offset));
+
+      const [point, otherPoint]: [Vector3, Vector3] = line.closestPointsTo(capsule.line);
+      const separation: Vector3 = point.subtract(otherPoint);
+      const gap: number = separation.magnitude - this.radius - capsule.radius;
+
+      if (separation.magnitude !== 0) normal = separation.unit;
+
+      if (gap <= Capsule.SWEEP_TOLERANCE) return [t, normal];
+      if (distance === 0) return;
+
+      t += gap / distance;
+      if (t > 1) return; // The displacement ends before they touch
+    }
+
+    return [t, normal]; // Still closing in, so stop where the last step reached rather than report a miss
+  }
+
   /**
    * Gets the intersection between the capsule and a triangle.
    * @param triangle The specified triangle.
@@ -346,6 +667,19 @@ export class Bounds {
     );
   }
 
+  /**
+   * Determines whether or not a point lies within the bounds.
+   * @param point The point.
+   * @returns True if the point is contained, false if otherwise.
+   */
+  public containsPoint(point: Vector3): boolean {
+    return (
+      point.x >= this.min.x && point.x <= this.max.x &&
+      point.y >= this.min.y && point.y <= this.max.y &&
+      point.z >= this.min.z && point.z <= this.max.z
+    );
+  }
+
   /**
    * Determines whether this rectagular bound overlaps with another.
    * @param bounds The other bounds.
@@ -0,0 +1,61 @@
+import { BVH, RaycastInfo } from "./bvh.js";
+import { Entity } from "../entity/entity.js";
+import { Ray } from "./collisions.js";
+import { Vector3 } from "../math/vector3.js";
+
+/** The info of a raycast against the level and the entities in it. */
+export interface SceneRaycastInfo extends RaycastInfo {
+  /** The entity hit, or undefined if the ray hit the level. */
+  entity?: Entity
+}
+
+/** Queries the static level geometry and the dynamic entity hitboxes together. */
+export class SceneQuery {
+  /**
+   * Creates the scene query.
+   * @param bvh The BVH containing the level geometry.
+   * @param getEntities Gets the entities currently in the scene.
+   */
+  constructor(private bvh: BVH, private getEntities: () => Iterable<Entity>) {}
+
+  /**
+   * Casts a ray against the level geometry and the hitboxes of every entity, returning the closest hit.
+   * @param ray The ray.
+   * @param maxDistance The maximum distance along the ray, defaulting to infinity.
+   * @param ignore The entities the ray passes through.
+   * @returns The info of the closest hit, including the entity hit if any.
+   */
+  public raycast(ray: Ray, maxDistance: number = Infinity, ignore: Entity[] = []): SceneRaycastInfo | undefined {
+    let closest: SceneRaycastInfo | undefined = this.bvh.raycast(ray, maxDistance);
+
+    for (const entity of this.getEntities()) {
+      if (ignore.indexOf(entity) !== -1) continue;
+
+      const info: RaycastInfo | undefined = entity.raycast(ray, closest ? closest.t : maxDistance);
+
+      if (info && (!closest || info.t < closest.t)) closest = { ...info, entity };
+    }
+
+    return closest;
+  }
+
+  /**
+   * Determines whether or not any geometry or entity lies between two points.
+   * @param from The first point.
+   * @param to The second point.
+   * @param ignore The entities that do not block the line, such as those at either point.
+   * @returns True if the line between them is blocked, false if otherwise.
+   */
+  public isOccluded(from: Vector3, to: Vector3, ignore: Entity[] = []): boolean {
+    if (this.bvh.isOccluded(from, to)) return true;
+
+    const difference: Vector3 = to.subtract(from);
+    const ray: Ray = new Ray(from, difference.unit);
+
+    for (const entity of this.getEntities()) {
+      if (ignore.indexOf(entity) === -1 && entity.raycast(ray, difference.magnitude)) return true;
+    }
+
+    return false;
+  }
+}
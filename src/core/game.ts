@@ -1,34 +1,75 @@
 import { BVH } from "../collisions/bvh.js";
 import { Camera } from "../rendering/camera.js";
 import { Canvas } from "../rendering/canvas.js";
-import { Controller } from "../interfacing/controller.js";
+import { Controller, UserController } from "../interfacing/controller.js";
+import { InputSettings } from "../interfacing/inputsettings.js";
+import { Settings } from "./settings.js";
 import { GameModel, MeshLoader, RenderModel } from "../mesh/mesh.js";
 import { Player } from "../entity/player.js";
 import { AudioEmission, AudioManager } from "../audio/audiomanager.js";
 import { Vector3 } from "../math/vector3.js";
+import { SceneQuery } from "../collisions/scenequery.js";
 import { GameEvent } from "../util/gameevent.js";
 import { UIManager } from "../interfacing/uimanager.js";
 import { Monster } from "../entity/monster.js";
+import { Entity } from "../entity/entity.js";
 import { Gameloop } from "./gameloop.js";
+import { NavGrid } from "../navigation/navgrid.js";
+import { ArchetypeLoader, ArchetypeName } from "../entity/archetypeloader.js";
+import { Level, MeshReference } from "./level.js";
+import { ObjectiveTracker } from "./objectives.js";
+import { EnergyPickup, PickupTracker } from "./pickups.js";
+import { Random } from "../util/random.js";
+import { LoadTracker } from "../util/loadtracker.js";
+import { Util } from "../util/util.js";
+import { InputRecorder, PlaybackController } from "../interfacing/replay.js";
+import { MenuSelection, PauseChoice } from "../interfacing/uimanager.js";
+
+/** The way a run ended, either killed by a monster or escaping with every objective. */
+export type Outcome = "death" | "victory";
 
 export class Game extends Gameloop {
   private static _instance: Game;
 
+  /** The id of the level loaded on startup. */
+  private readonly DEFAULT_LEVEL: string = "map";
+
+  /** Whether or not dev tools such as shader reloading are enabled, set by the dev url query. */
+  public readonly devMode: boolean = new URLSearchParams(window.location.search).has("dev");
+
   public readonly firstStep: GameEvent = new GameEvent();
   public readonly lastStep: GameEvent = new GameEvent();
 
+  public readonly settings: Settings = new Settings();
+  public readonly loadTracker: LoadTracker = new LoadTracker();
   public readonly canvas: Canvas = new Canvas();
   public readonly camera: Camera = new Camera();
   public readonly meshLoader: MeshLoader = new MeshLoader();
   public readonly audioManager: AudioManager = new AudioManager();
   public readonly uiManager: UIManager = new UIManager();
-  public readonly controller: Controller = new Controller();
+  public readonly inputSettings: InputSettings = new InputSettings();
+  public readonly userController: UserController = new UserController(this.inputSettings);
+  public readonly recorder: InputRecorder = new InputRecorder();
   public readonly bvh: BVH = new BVH();
-
+  /** Queries the level geometry together with the hitboxes of the run's entities. */
+  public readonly scene: SceneQuery = new SceneQuery(this.bvh, () => this.entities);
+  public readonly navGrid: NavGrid = new NavGrid();
+  public readonly archetypeLoader: ArchetypeLoader = new ArchetypeLoader();
+  /** The generator used for all gameplay randomness, reseeded at the start of every run. */
+  public readonly random: Random = new Random(Random.createSeed());
+
+  /** The controller the simulation reads input from, either the user or a replay being played back. */
+  private _controller: Controller = this.userController;
   private _player: Player;
-  private _monster: Monster;
-  
-  private monsterModel: RenderModel;
+  private _objectives: ObjectiveTracker;
+  private pickups: PickupTracker;
+
+  /** The registry of monsters currently in the run. */
+  private readonly _monsters: Set<Monster> = new Set();
+
+  private _level?: Level;
+  private selection: MenuSelection;
+  private levelModels: RenderModel[] = [];
   private ambienceSound: AudioEmission;
 
   private ended: boolean = false;
@@ -39,57 +80,183 @@ export class Game extends Gameloop {
     return Game._instance;
   }
 
+  public get controller(): Controller {
+    return this._controller;
+  }
+
   public get player(): Player {
     return this._player;
   }
 
-  public get monster(): Monster {
-    return this._monster;
+  public get objectives(): ObjectiveTracker {
+    return this._objectives;
+  }
+
+  public get monsters(): ReadonlySet<Monster> {
+    return this._monsters;
+  }
+
+  /** Returns every entity in the run, the player followed by the monsters. */
+  public get entities(): Entity[] {
+    return [this._player, ...this._monsters];
+  }
+
+  public get level(): Level {
+    return this._level!;
   }
 
   public async init(): Promise<void> {
-    // Load canvas and then the meshes
-    const canvasMeshPromise: Promise<void> = this.canvas.init().then(() => {
-      this.meshLoader.init();
+    this.inputSettings.load(); // Load the saved bindings and aim settings
+    this.settings.load(); // Load the saved audio, graphics and accessibility settings
+
+    // Apply the settings now and again whenever one changes
+    this.applySettings();
+    this.settings.changed.connect(() => this.applySettings());
+
+    this.lastStep.connect(() => this.audioManager.updateListener(this.camera)); // Keep the audio listener at the camera
+
+    // Load canvas, meshes, level, audio and monster archetypes, waiting for every load to settle so a retry never overlaps one
+    const load = (): Promise<void> => {
+      // Load canvas and then the meshes and default level
+      const canvasMeshPromise: Promise<void> = this.canvas.init().then(async () => {
+        await this.meshLoader.init();
+        await this.loadLevel(this.DEFAULT_LEVEL);
+      });
+
+      return Util.settleAll([
+        canvasMeshPromise,
+        this.audioManager.init(),
+        this.archetypeLoader.init()
+      ]);
+    };
+
+    await this.uiManager.handleLoadingScreen(load); // Show loading progress, retrying on failure, and await user input
+
+    // Reload shaders as their files change, showing any errors over the game
+    if (this.devMode) {
+      this.canvas.shaderReloader.errorsChanged.connect((errorText?: string) => this.uiManager.showShaderErrors(errorText));
+      this.canvas.shaderReloader.start();
+    }
+
+    // Pause whenever the pointer lock is lost or the page is hidden
+    this.userController.pointerLockLost.connect(() => this.pause());
+
+    document.addEventListener("visibilitychange", () => {
+      if (document.hidden) this.pause();
     });
 
-    // Load canvas, meshes and audio
-    const loadPromise: Promise<void[]> = Promise.all([
-      canvasMeshPromise,
-      this.audioManager.init(),
+    this.start(this.DEFAULT_LEVEL);
+  }
+
+  /** Applies the settings to the audio mixer and canvas. */
+  private applySettings(): void {
+    this.audioManager.applySettings(this.settings);
+    this.canvas.applySettings(this.settings);
+  }
+
+  /**
+   * Loads a level's meshes and builds its collision and navigation data, replacing the current level.
+   * @param id The level id.
+   */
+  private async loadLevel(id: string): Promise<void> {
+    if (this._level && this._level.id === id) return; // Skip if the level is already loaded
+
+    const level: Level = await this.loadTracker.track(Level.load(id));
+
+    // Load the level's meshes and the sounds only it uses
+    await Promise.all([
+      ...level.meshes.map((mesh: MeshReference) => this.meshLoader.load(mesh.name, mesh.path)),
+      this.audioManager.load(level.sounds)
     ]);
 
-    await this.uiManager.handleLoadingScreen(loadPromise); // Do loading screen animation and await user input
+    // Unregister the previous level's render models
+    for (const model of this.levelModels) this.canvas.unregisterModel(model);
 
-    const mapRender: RenderModel = this.meshLoader.createRenderModel("map"); // Create map render model
-    const mapModel: GameModel = this.meshLoader.createGameModel("map"); // Create map game model
+    const gameModels: GameModel[] = level.meshes.map((mesh: MeshReference) => this.meshLoader.createGameModel(mesh.name));
 
-    this.monsterModel = this.meshLoader.createRenderModel("monster"); // Create monster render model
+    this.bvh.init(gameModels); // Initialize bounding volume hierarchy with level triangles
+    this.navGrid.init(this.bvh); // Generate the navigation grid from the level's walkable surfaces
 
-    this.bvh.init([mapModel]); // Initialize bounding volume hierarchy with map triangles
+    // Create and register render models to the canvas for rendering
+    this.levelModels = level.meshes.map((mesh: MeshReference) => this.meshLoader.createRenderModel(mesh.name));
+    for (const model of this.levelModels) this.canvas.registerModel(model);
+
+    // Win the run once the player reaches the exit with every objective collected
+    level.exit.entered.connect(() => {
+      if (this._objectives.complete) this.end("victory");
+    });
+
+    this._level = level;
+  }
 
-    // Register render models to the canvas for rendering
-    this.canvas.registerModel(mapRender);
-    this.canvas.registerModel(this.monsterModel);
+  /**
+   * Prompts the menu and starts a run of a level once the user presses play.
+   * @param levelId The level id.
+   */
+  public async start(levelId: string): Promise<void> {
+    this.selection = await this.uiManager.menuPrompt(); // Prompt menu and wait for user to press play
 
-    this.start();
+    await this.beginRun(levelId, this.selection);
   }
 
-  public async start(): Promise<void> {
-    await this.uiManager.menuPrompt(); // Prompt menu and wait for user to press play
+  /**
+   * Loads a level if it is not already loaded and starts a run of it.
+   * @param levelId The level id.
+   * @param selection The seed and replay chosen on the menu.
+   */
+  private async beginRun(levelId: string, selection: MenuSelection): Promise<void> {
+    if (selection.replay) { // Play back the replay's inputs on its level and seed
+      await this.loadLevel(selection.replay.level);
+
+      this._controller = new PlaybackController(selection.replay);
+      this.random.reset(selection.replay.seed);
+
+    } else {
+      await this.loadLevel(levelId);
+
+      this._controller = this.userController;
+      this.random.reset(selection.seedText ? Random.parseSeed(selection.seedText) : Random.createSeed()); // Seed the run, picking a new seed if none was given
+    }
+
+    this.recorder.start(this.level.id, this.random.seed); // Record the run's inputs so it can be replayed
 
     // Set ended state properties to false
     this.ended = false;
     this.canvas.endScreenActive = false;
 
     // Create entities
-    this._player = new Player();
-    this._monster = new Monster(this.monsterModel, this._player);
+    this._player = new Player(this.level.playerSpawn);
+    this._objectives = new ObjectiveTracker(this.level.objectives);
+
+    // Reveal objectives with the player's scan dots and play a sound when one is collected
+    this._player.scanned.connect((hitPositions: Vector3[]) => this._objectives.scan(hitPositions));
+    this._objectives.collected.connect(() => this.audioManager.get("click").emit(true));
+
+    // Reveal energy pickups the same way, recharging the scanner when one is collected
+    this.pickups = new PickupTracker(this.level.pickups);
+    this._player.scanned.connect((hitPositions: Vector3[]) => this.pickups.scan(hitPositions));
+
+    this.pickups.collected.connect((pickup: EnergyPickup) => {
+      this._player.restoreEnergy(pickup.charge);
+      this.audioManager.get("click").emit(true);
+    });
+
+    for (const spawn of this.level.monsterSpawns) {
+      const monster: Monster = this.spawnMonster(spawn.archetype, new Vector3(...spawn.position));
+
+      // Scatter the monster around its spawn point
+      if (spawn.radius) {
+        const position: Vector3 | undefined = this.navGrid.getRandomPosition(monster.feetPosition, spawn.radius, () => this.random.next());
+        if (position) monster.feetPosition = position;
+      }
+    }
 
     // Set camera subject and offset
     this.camera.subject = this._player;
     this.camera.subjectOffset = new Vector3(0, 1.5, 0);
 
+    this.level.resetTriggers();
+
     this.controller.lockMouse(); // Lock the mouse
 
     this.ambienceSound = this.audioManager.get("ambience").emit(true); // Play ambience sound
@@ -99,52 +266,151 @@ export class Game extends Gameloop {
 
   protected update(deltaTime: number): void {
     if (!this.ended) { // Skip if the game has ended
+      // Sample and record the input of this step
+      this._controller.step();
+      this.recorder.record(this._controller.frame);
+
       this.firstStep.fire(deltaTime); // Fire first step event for timer delays
 
       this.camera.prePhysicsUpdate(); // Update camera rotation
 
       // Handle player and monster aim/move direction setting and player stamina bar
       this._player.prePhysicsBehaviour(deltaTime);
-      this._monster.prePhysicsBehaviour();
+      for (const monster of this._monsters) monster.prePhysicsBehaviour(deltaTime);
 
       // Handle movement and collisions
       this._player.updatePhysics(deltaTime);
-      this._monster.updatePhysics(deltaTime);
+      for (const monster of this._monsters) monster.updatePhysics(deltaTime);
 
       // Set new camera position and transition fov
       this.camera.postPhysicsUpdate(deltaTime);
 
       // Handle player scanning and monster aggression/chasing
       this._player.postPhysicsBehaviour();
-      this._monster.postPhysicsBehaviour(deltaTime);
+
+      for (const monster of this._monsters) {
+        monster.postPhysicsBehaviour(deltaTime);
+        if (this.ended) break; // Stop once a monster has ended the game
+      }
+
+      if (!this.ended) {
+        this._objectives.update(this._player.position); // Collect any revealed objectives in reach
+        this.pickups.update(this._player.position); // Collect any revealed energy pickups in reach
+        this.level.updateTriggers(this._player.position); // Handle trigger volumes and reaching the exit
+      }
   
       this.lastStep.fire(deltaTime); // Fire last step event for audio
 
       this.uiManager.updateGameInfo(); // Display the new game info
     }
+  }
+
+  protected render(alpha: number): void {
+    if (!this.ended) {
+      // Place the camera and monster models between the last two steps
+      this.camera.interpolate(alpha);
+      for (const monster of this._monsters) monster.updateModel(alpha);
+
+      this.updateEffectLevels();
+    }
 
     this.canvas.render();
   }
 
-  public async end(): Promise<void> {
-    // Set ended state properties to true and reset canvas and camera
+  /** Sets the canvas screen effect levels from the monsters' aggression and states and the player's stamina. */
+  private updateEffectLevels(): void {
+    let fear: number = 0;
+    let chase: number = 0;
+
+    for (const monster of this._monsters) {
+      fear = Math.max(fear, monster.aggression / monster.MAX_AGGRESSION);
+      if (monster.state === "chase") chase = 1;
+    }
+
+    // Close in the vignette over the last part of the stamina
+    const exhaustion: number = Math.max(1 - this._player.stamina / (this._player.MAX_STAMINA * 0.4), 0);
+
+    this.canvas.effectLevels = { fear, exhaustion, chase };
+  }
+
+  /**
+   * Spawns a monster of an archetype with its own render model and adds it to the registry.
+   * @param archetype The archetype name.
+   * @param position The spawn position.
+   * @returns The spawned monster.
+   */
+  public spawnMonster(archetype: ArchetypeName, position: Vector3): Monster {
+    const model: RenderModel = this.meshLoader.createRenderModel("monster");
+    const monster: Monster = new Monster(model, this._player, this.archetypeLoader.get(archetype), position);
+
+    this.canvas.registerModel(model);
+    this._monsters.add(monster);
+
+    return monster;
+  }
+
+  /** Destroys all monsters and removes them from the registry. */
+  private despawnMonsters(): void {
+    for (const monster of this._monsters) monster.destroy();
+
+    this._monsters.clear();
+  }
+
+  /** Stops the current run, destroying its entities and sounds and resetting the canvas and camera. */
+  private stopRun(): void {
+    // Set ended state property to true and reset canvas and camera
     this.ended = true;
-    this.canvas.endScreenActive = true;
     this.canvas.reset();
+    this.canvas.effectLevels = { fear: 0, exhaustion: 0, chase: 0 };
     this.camera.reset();
 
     // Destroy entities
     this._player.destroy();
-    this._monster.destroy();
+    this.despawnMonsters();
 
     this.controller.unlockMouse(); // Unlock mouse
 
     if (this.ambienceSound) this.ambienceSound.stop();
+  }
+
+  /** Freezes the run and prompts the pause menu, then resumes, restarts or quits to the menu. */
+  public async pause(): Promise<void> {
+    if (!this.running || this.paused || this.ended) return; // Skip if there is no run to pause
+
+    // Freeze simulation time and sounds
+    this.pauseLoop();
+    this.controller.unlockMouse();
+    await this.audioManager.suspend();
+
+    const choice: PauseChoice = await this.uiManager.pausePrompt(); // Prompt pause menu and await a choice
+
+    await this.audioManager.resume();
+
+    if (choice === "resume") {
+      this.controller.lockMouse();
+      this.resumeLoop();
+
+    } else {
+      this.stopRun();
+      this.stopLoop(); // Stop game loop
+
+      if (choice === "restart") this.beginRun(this.level.id, this.selection); // Start a new run with the same menu selection
+      else this.start(this.level.id); // Start game and menu
+    }
+  }
+
+  /**
+   * Ends the run, showing the end screen for its outcome and restarting after replay.
+   * @param outcome How the run ended.
+   */
+  public async end(outcome: Outcome): Promise<void> {
+    this.stopRun();
+    this.canvas.endScreenActive = outcome === "death"; // Only show static after dying
 
-    await this.uiManager.endScreenPrompt(); // Prompt end screen and await replay
+    await this.uiManager.endScreenPrompt(outcome); // Prompt end screen and await replay
 
     this.stopLoop(); // Stop game loop
-    this.start(); // Start game and menu
+    this.start(this.level.id); // Start game and menu
   }
 }
 
@@ -1,20 +1,28 @@
 /** Handle game loop */
 export abstract class Gameloop {
+  /** The fixed time simulated by every step. */
+  public readonly FIXED_STEP: number = 1 / 60;
+  /** The maximum frame time simulated, so that stalls do not cause huge catch ups. */
+  private readonly MAX_FRAME_TIME: number = 0.25;
+
   private _running: boolean = false;
+  private _paused: boolean = false;
+  private frameRequest?: number;
   private lastTime?: number;
+  private accumulator: number = 0;
   private _elapsedTime: number = 0;
   private _fps: number;
 
   protected startLoop(): void {
     this._running = true;
 
-    requestAnimationFrame((timestamp: number) => {
+    this.frameRequest = requestAnimationFrame((timestamp: number) => {
       this.loop(timestamp);
     });
   }
 
   /**
-   * Handles the gameloop frame.
+   * Handles the gameloop frame, running as many fixed steps as the frame time allows and rendering in between them.
    * @param timestamp The animation frame timestamp in milliseconds.
    */
   private loop(timestamp: number): void {
@@ -24,21 +32,46 @@ export abstract class Gameloop {
     const deltaTime: number = this.lastTime !== undefined ? (timestamp - this.lastTime) / 1000 : 0;
     this.lastTime = timestamp;
 
-    this._elapsedTime += deltaTime;
     this._fps = 1 / deltaTime;
 
-    // Call update function
-    this.update(deltaTime);
+    // Clamp the frame time to avoid tunnelling after stalls, and freeze simulation time while paused
+    if (!this._paused) this.accumulator += Math.min(deltaTime, this.MAX_FRAME_TIME);
+
+    // Consume the accumulated time in fixed steps
+    while (this.accumulator >= this.FIXED_STEP) {
+      this.accumulator -= this.FIXED_STEP;
+      this.advance();
+    }
+
+    // Call render function with how far between the last and next step the frame is
+    this.render(this.accumulator / this.FIXED_STEP);
 
-    requestAnimationFrame((timestamp: number) => {
+    this.frameRequest = requestAnimationFrame((timestamp: number) => {
       this.loop(timestamp);
     });
   }
 
+  /**
+   * Manually runs fixed steps of the simulation without rendering, such as for headless runs.
+   * @param steps The number of steps to run.
+   */
+  public advance(steps: number = 1): void {
+    for (let i = 0; i < steps; i++) {
+      this._elapsedTime += this.FIXED_STEP;
+
+      // Call update function
+      this.update(this.FIXED_STEP);
+    }
+  }
+
   public get running(): boolean {
     return this._running;
   }
 
+  public get paused(): boolean {
+    return this._paused;
+  }
+
   public get elapsedTime(): number {
     return this._elapsedTime;
   }
@@ -47,12 +80,37 @@ export abstract class Gameloop {
     return this._fps;
   }
 
+  /** Freezes simulation time while still rendering frames. */
+  protected pauseLoop(): void {
+    this._paused = true;
+  }
+
+  /** Continues simulating from where it was paused. */
+  protected resumeLoop(): void {
+    this._paused = false;
+  }
+
   protected stopLoop(): void {
     this._running = false;
+    this._paused = false;
+
+    if (this.frameRequest !== undefined) cancelAnimationFrame(this.frameRequest); // Cancel the pending frame so a restarted loop does not run twice
     
+    delete this.frameRequest;
     delete this.lastTime;
+    this.accumulator = 0;
     this._elapsedTime = 0;
   }
 
+  /**
+   * Simulates a fixed step.
+   * @param deltaTime The fixed time passed.
+   */
   protected abstract update(deltaTime: number): void;
-}
\ No newline at end of file
+
+  /**
+   * Draws the current frame.
+   * @param alpha How far the frame is between the last step and the next, from 0 to 1.
+   */
+  protected abstract render(alpha: number): void;
+}
@@ -0,0 +1,184 @@
+import { ArchetypeName } from "../entity/archetypeloader.js";
+import { Bounds } from "../collisions/collisions.js";
+import { GameEvent } from "../util/gameevent.js";
+import { Util } from "../util/util.js";
+import { Vector3 } from "../math/vector3.js";
+
+type Vector3Data = [number, number, number];
+
+/** Defines a mesh file used by a level. */
+export interface MeshReference {
+  name: string,
+  path: string
+}
+
+/** Defines where a monster of an archetype spawns. */
+export interface MonsterSpawn {
+  archetype: ArchetypeName,
+  position: Vector3Data,
+  /** The radius around the position the spawn is randomly scattered within. */
+  radius?: number
+}
+
+interface BoundsData {
+  min: Vector3Data,
+  max: Vector3Data
+}
+
+interface TriggerData extends BoundsData {
+  name: string
+}
+
+interface ObjectiveData {
+  name: string,
+  position: Vector3Data
+}
+
+interface PickupData {
+  position: Vector3Data,
+  /** The scanner energy restored, defaulting to the pickup's default charge. */
+  charge?: number
+}
+
+/** Defines the data of a level, loaded from a json descriptor. */
+export interface LevelData {
+  meshes: MeshReference[],
+  /** The names of the sounds only used by this level, loaded along with it. */
+  sounds?: string[],
+  playerSpawn: Vector3Data,
+  monsters: MonsterSpawn[],
+  triggers: TriggerData[],
+  objectives: ObjectiveData[],
+  /** The scanner energy pickups placed around the level. */
+  pickups?: PickupData[],
+  exit: BoundsData
+}
+
+/** Represents a collectible objective placed in a level. */
+export interface Objective {
+  name: string,
+  position: Vector3
+}
+
+/** Represents a scanner energy pickup placed in a level. */
+export interface Pickup {
+  position: Vector3,
+  charge?: number
+}
+
+/** Represents a level's layout, spawn points, trigger volumes and goals. */
+export class Level {
+  public readonly playerSpawn: Vector3;
+  public readonly triggers: Map<string, TriggerVolume> = new Map();
+  public readonly objectives: Objective[];
+  public readonly pickups: Pickup[];
+  public readonly exit: TriggerVolume;
+
+  /**
+   * Creates a level from its descriptor data.
+   * @param id The level id.
+   * @param data The level data.
+   */
+  private constructor(public readonly id: string, private data: LevelData) {
+    this.playerSpawn = new Vector3(...data.playerSpawn);
+    this.exit = new TriggerVolume("exit", Level.createBounds(data.exit));
+
+    for (const trigger of data.triggers) {
+      if (this.triggers.has(trigger.name)) throw new Error(`Duplicate trigger name in level ${id}: ${trigger.name}`);
+
+      this.triggers.set(trigger.name, new TriggerVolume(trigger.name, Level.createBounds(trigger)));
+    }
+
+    this.objectives = data.objectives.map((objective: ObjectiveData) => {
+      return { name: objective.name, position: new Vector3(...objective.position) };
+    });
+
+    this.pickups = (data.pickups || []).map((pickup: PickupData) => {
+      return { position: new Vector3(...pickup.position), charge: pickup.charge };
+    });
+  }
+
+  /**
+   * Loads a level from its json descriptor.
+   * @param id The level id.
+   * @returns A promise returning the level.
+   */
+  public static async load(id: string): Promise<Level> {
+    const levelFile: Response = await Util.loadFile(`res/levels/${id}.json`);
+    const data: LevelData = await levelFile.json();
+
+    return new Level(id, data);
+  }
+
+  /**
+   * Creates bounds from their descriptor data.
+   * @param data The bounds data.
+   * @returns The created bounds.
+   */
+  private static createBounds(data: BoundsData): Bounds {
+    return new Bounds(new Vector3(...data.min), new Vector3(...data.max));
+  }
+
+  public get meshes(): MeshReference[] {
+    return this.data.meshes;
+  }
+
+  public get sounds(): string[] {
+    return this.data.sounds || [];
+  }
+
+  public get monsterSpawns(): MonsterSpawn[] {
+    return this.data.monsters;
+  }
+
+  /**
+   * Updates the exit and all trigger volumes with the current position of the player.
+   * @param position The player position.
+   */
+  public updateTriggers(position: Vector3): void {
+    for (const trigger of this.triggers.values()) trigger.update(position);
+
+    this.exit.update(position);
+  }
+
+  /** Resets the occupied state of the exit and all trigger volumes. */
+  public resetTriggers(): void {
+    for (const trigger of this.triggers.values()) trigger.reset();
+
+    this.exit.reset();
+  }
+}
+
+/** Represents a named volume that fires events when the player enters or exits it. */
+export class TriggerVolume {
+  public readonly entered: GameEvent = new GameEvent();
+  public readonly exited: GameEvent = new GameEvent();
+
+  private occupied: boolean = false;
+
+  /**
+   * Creates a trigger volume.
+   * @param name The trigger name.
+   * @param bounds The volume bounds.
+   */
+  constructor(public readonly name: string, public readonly bounds: Bounds) {}
+
+  /**
+   * Fires the entered or exited event if the position has moved in or out of the volume.
+   * @param position The tested position.
+   */
+  public update(position: Vector3): void {
+    const inside: boolean = this.bounds.containsPoint(position);
+    if (inside === this.occupied) return;
+
+    this.occupied = inside;
+
+    if (inside) this.entered.fire(this);
+    else this.exited.fire(this);
+  }
+
+  /** Resets the volume to unoccupied without firing any events. */
+  public reset(): void {
+    this.occupied = false;
+  }
+}
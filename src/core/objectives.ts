@@ -0,0 +1,134 @@
+import { DotType } from "../rendering/canvas.js";
+import { Game } from "./game.js";
+import { GameEvent } from "../util/gameevent.js";
+import { Objective } from "./level.js";
+import { Timer } from "../util/timer.js";
+import { Vector3 } from "../math/vector3.js";
+
+/** Represents a collectible item which stays hidden until scan dots land on it. */
+export class Collectible {
+  private readonly REVEAL_RADIUS: number = 4;
+  private readonly MARKER_RADIUS: number = 1;
+  private readonly MARKER_DOT_COUNT: number = 40;
+
+  /** The type of the dots marking the item. */
+  protected readonly dotType: DotType = "objective";
+
+  private _revealed: boolean = false;
+  private _collected: boolean = false;
+  private markTimer: Timer = new Timer(1);
+
+  /**
+   * Creates a collectible from a level objective.
+   * @param name The objective name.
+   * @param position The world position of the item.
+   */
+  constructor(public readonly name: string, public readonly position: Vector3) {}
+
+  public get revealed(): boolean {
+    return this._revealed;
+  }
+
+  public get collected(): boolean {
+    return this._collected;
+  }
+
+  /**
+   * Reveals the item if any of the scan dots landed close enough to it.
+   * @param hitPositions The positions the scan dots landed on.
+   */
+  public scan(hitPositions: Vector3[]): void {
+    if (this._collected) return;
+
+    for (const position of hitPositions) {
+      if (position.subtract(this.position).magnitude > this.REVEAL_RADIUS) continue;
+
+      this._revealed = true;
+      this.mark();
+
+      return;
+    }
+  }
+
+  /** Draws a sphere of dots around the item to show where it is, at most once per mark cooldown. */
+  private mark(): void {
+    if (this.markTimer.active) return;
+
+    this.markTimer.start();
+
+    // Spread the dots evenly over the sphere using a golden angle spiral
+    const goldenAngle: number = Math.PI * (3 - Math.sqrt(5));
+
+    for (let i = 0; i < this.MARKER_DOT_COUNT; i++) {
+      const y: number = 1 - 2 * (i + 0.5) / this.MARKER_DOT_COUNT;
+      const ringRadius: number = Math.sqrt(1 - y * y);
+      const angle: number = goldenAngle * i;
+
+      const normal: Vector3 = new Vector3(Math.cos(angle) * ringRadius, y, Math.sin(angle) * ringRadius);
+
+      Game.instance.canvas.createDot(this.position.add(normal.multiply(this.MARKER_RADIUS)), normal, this.dotType);
+    }
+  }
+
+  /** Collects the item. */
+  public collect(): void {
+    this._collected = true;
+  }
+}
+
+/** Tracks the collectibles of a run and whether or not all of them have been found. */
+export class ObjectiveTracker {
+  private readonly COLLECT_RANGE: number = 5;
+
+  /** Fired with the collectible whenever one is collected. */
+  public readonly collected: GameEvent = new GameEvent();
+
+  public readonly collectibles: Collectible[];
+
+  private _collectedCount: number = 0;
+
+  /**
+   * Creates the collectibles for a level's objectives.
+   * @param objectives The level objectives.
+   */
+  constructor(objectives: Objective[]) {
+    this.collectibles = objectives.map((objective: Objective) => new Collectible(objective.name, objective.position));
+  }
+
+  public get collectedCount(): number {
+    return this._collectedCount;
+  }
+
+  public get total(): number {
+    return this.collectibles.length;
+  }
+
+  /** Returns whether or not every collectible has been collected. */
+  public get complete(): boolean {
+    return this._collectedCount === this.collectibles.length;
+  }
+
+  /**
+   * Reveals any collectibles the scan dots landed on.
+   * @param hitPositions The positions the scan dots landed on.
+   */
+  public scan(hitPositions: Vector3[]): void {
+    for (const collectible of this.collectibles) collectible.scan(hitPositions);
+  }
+
+  /**
+   * Collects any revealed collectibles within range of the player.
+   * @param position The player position.
+   */
+  public update(position: Vector3): void {
+    for (const collectible of this.collectibles) {
+      if (!collectible.revealed || collectible.collected) continue;
+      if (collectible.position.subtract(position).magnitude > this.COLLECT_RANGE) continue;
+
+      collectible.collect();
+      this._collectedCount++;
+
+      this.collected.fire(collectible);
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import { Collectible } from "./objectives.js";
+import { DotType } from "../rendering/canvas.js";
+import { GameEvent } from "../util/gameevent.js";
+import { Pickup } from "./level.js";
+import { Vector3 } from "../math/vector3.js";
+
+/** Represents a scanner battery which, like an objective, stays hidden until scan dots land on it. */
+export class EnergyPickup extends Collectible {
+  protected readonly dotType: DotType = "pickup";
+
+  /**
+   * Creates an energy pickup.
+   * @param position The world position of the pickup.
+   * @param charge The scanner energy restored when collected.
+   */
+  constructor(position: Vector3, public readonly charge: number) {
+    super("battery", position);
+  }
+}
+
+/** Tracks the energy pickups of a run, collecting revealed pickups the player reaches. */
+export class PickupTracker {
+  private readonly COLLECT_RANGE: number = 5;
+  private readonly DEFAULT_CHARGE: number = 50;
+
+  /** Fired with the pickup whenever one is collected. */
+  public readonly collected: GameEvent = new GameEvent();
+
+  public readonly pickups: EnergyPickup[];
+
+  /**
+   * Creates the energy pickups for a level.
+   * @param pickups The level pickups.
+   */
+  constructor(pickups: Pickup[]) {
+    this.pickups = pickups.map((pickup: Pickup) => new EnergyPickup(pickup.position, pickup.charge !== undefined ? pickup.charge : this.DEFAULT_CHARGE));
+  }
+
+  /**
+   * Reveals any pickups the scan dots landed on.
+   * @param hitPositions The positions the scan dots landed on.
+   */
+  public scan(hitPositions: Vector3[]): void {
+    for (const pickup of this.pickups) pickup.scan(hitPositions);
+  }
+
+  /**
+   * Collects any revealed pickups within range of the player.
+   * @param position The player position.
+   */
+  public update(position: Vector3): void {
+    for (const pickup of this.pickups) {
+      if (!pickup.revealed || pickup.collected) continue;
+      if (pickup.position.subtract(position).magnitude > this.COLLECT_RANGE) continue;
+
+      pickup.collect();
+
+      this.collected.fire(pickup);
+    }
+  }
+}
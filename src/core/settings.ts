@@ -0,0 +1,122 @@
+import { GameEvent } from "../util/gameevent.js";
+import { Util } from "../util/util.js";
+
+/** Defines every persisted game setting and its type. */
+export interface SettingsData {
+  masterVolume: number,
+  musicVolume: number,
+  ambienceVolume: number,
+  sfxVolume: number,
+  /** The maximum number of scan dots kept at once. */
+  dotBudget: number,
+  /** The scale of the canvas resolution relative to its displayed size. */
+  resolutionScale: number,
+  baseFov: number,
+  /** Whether or not the fov widens while sprinting. */
+  sprintFov: boolean,
+  /** Whether or not the static and dot noise flicker less. */
+  reducedFlashing: boolean
+}
+
+/** The names of the settings with number values. */
+export type NumberSetting = { [K in keyof SettingsData]: SettingsData[K] extends number ? K : never }[keyof SettingsData];
+
+/** The names of the settings with boolean values. */
+export type BooleanSetting = { [K in keyof SettingsData]: SettingsData[K] extends boolean ? K : never }[keyof SettingsData];
+
+/** Manages the typed game settings, persisting them to local storage and firing an event whenever one changes. */
+export class Settings {
+  private readonly STORAGE_KEY: string = "fleeting-glimpse.settings";
+
+  private readonly DEFAULTS: SettingsData = {
+    masterVolume: 1,
+    musicVolume: 1,
+    ambienceVolume: 1,
+    sfxVolume: 1,
+    dotBudget: 200000,
+    resolutionScale: 1,
+    baseFov: 70,
+    sprintFov: true,
+    reducedFlashing: false
+  };
+
+  /** The allowed range of each number setting. */
+  public readonly RANGES: Record<NumberSetting, [number, number]> = {
+    masterVolume: [0, 1],
+    musicVolume: [0, 1],
+    ambienceVolume: [0, 1],
+    sfxVolume: [0, 1],
+    dotBudget: [20000, 400000],
+    resolutionScale: [0.25, 1],
+    baseFov: [50, 110]
+  };
+
+  /** Fired with the name and new value of a setting whenever it changes. */
+  public readonly changed: GameEvent = new GameEvent();
+
+  private data: SettingsData = { ...this.DEFAULTS };
+
+  /** Loads the saved settings, falling back on the defaults for anything missing or invalid. */
+  public load(): void {
+    const saved: string | null = localStorage.getItem(this.STORAGE_KEY);
+    if (!saved) return;
+
+    try {
+      const parsed: Partial<SettingsData> = JSON.parse(saved);
+
+      for (const key of Object.keys(this.DEFAULTS) as (keyof SettingsData)[]) {
+        const value: unknown = parsed[key];
+
+        // Only keep values of the same type as the default
+        if (typeof value === typeof this.DEFAULTS[key]) this.set(key, value as SettingsData[typeof key], false);
+      }
+
+    } catch {
+      console.warn("Failed to load settings, using defaults.");
+    }
+  }
+
+  /** Saves the settings to local storage. */
+  public save(): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.data));
+  }
+
+  /** Restores and saves the default settings. */
+  public reset(): void {
+    for (const key of Object.keys(this.DEFAULTS) as (keyof SettingsData)[]) {
+      this.set(key, this.DEFAULTS[key], false);
+    }
+
+    this.save();
+  }
+
+  /**
+   * Gets the value of a setting.
+   * @param key The setting name.
+   * @returns The value.
+   */
+  public get<K extends keyof SettingsData>(key: K): SettingsData[K] {
+    return this.data[key];
+  }
+
+  /**
+   * Sets the value of a setting, clamping numbers to their range, and fires the changed event if it changed.
+   * @param key The setting name.
+   * @param value The new value.
+   * @param save Whether or not to save the settings afterwards.
+   */
+  public set<K extends keyof SettingsData>(key: K, value: SettingsData[K], save: boolean = true): void {
+    if (typeof value === "number") {
+      const [min, max]: [number, number] = this.RANGES[key as NumberSetting];
+      value = Util.clamp(value, min, max) as SettingsData[K];
+    }
+
+    if (this.data[key] === value) return;
+
+    this.data[key] = value;
+
+    if (save) this.save();
+
+    this.changed.fire(key, value);
+  }
+}
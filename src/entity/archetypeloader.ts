@@ -0,0 +1,45 @@
+import { Game } from "../core/game.js";
+import { MonsterConfig } from "./monster.js";
+import { Util } from "../util/util.js";
+
+export type ArchetypeName = "stalker" | "listener" | "hunter";
+
+/** Manages and loads the tuning configs of each monster archetype. */
+export class ArchetypeLoader {
+  /** Default archetype names. */
+  private readonly ARCHETYPE_NAMES: ArchetypeName[] = ["stalker", "listener", "hunter"];
+
+  /** A map of the loaded archetype configs. */
+  private readonly archetypes: Map<ArchetypeName, MonsterConfig> = new Map();
+
+  /** Initialize and load all archetype configs. */
+  public async init(): Promise<void> {
+    const promises: Promise<MonsterConfig>[] = [];
+
+    // Create all config load promises
+    for (let i = 0; i < this.ARCHETYPE_NAMES.length; i++) {
+      const promise: Promise<MonsterConfig> = Util.loadFile(`res/config/archetypes/${this.ARCHETYPE_NAMES[i]}.json`).then((response: Response) => response.json());
+      promises[i] = Game.instance.loadTracker.track(promise);
+    }
+
+    // Load configs simultaneously
+    const configs: MonsterConfig[] = await Promise.all(promises);
+
+    for (let i = 0; i < configs.length; i++) {
+      this.archetypes.set(this.ARCHETYPE_NAMES[i], configs[i]);
+    }
+  }
+
+  /**
+   * Gets the config of the specified archetype.
+   * @param name The archetype name.
+   * @returns The monster config.
+   */
+  public get(name: ArchetypeName): MonsterConfig {
+    const config: MonsterConfig | undefined = this.archetypes.get(name);
+
+    if (!config) throw new Error(`Monster archetype does not exist: ${name}`); // Throw error if the archetype does not exist
+
+    return config;
+  }
+}
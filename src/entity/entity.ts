@@ -1,11 +1,11 @@
-import { Capsule } from "../collisions/collisions.js";
+import { Capsule, Ray, Surface } from "../collisions/collisions.js";
 import { Game } from "../core/game.js";
+import { RaycastInfo } from "../collisions/bvh.js";
 import { Matrix4 } from "../math/matrix4.js";
 import { Vector3 } from "../math/vector3.js";
 
 export abstract class Entity {
   private GRAV_ACCEL: number = 100;
-  private MAX_VERTICAL_SLOPE: number = 80 * Math.PI / 180;
 
   private _moveDirection: Vector3 = Vector3.zero;
   private _aimDirection: Vector3 = Matrix4.identity.lookVector;
@@ -14,12 +14,36 @@ export abstract class Entity {
   private fallSpeed: number = 0;
   private _onFloor: boolean = false;
 
-  constructor(private _position: Vector3, private hitbox: Capsule) { }
+  /** The position before the last physics step, for interpolating rendering between steps. */
+  private previousPosition: Vector3;
+
+  constructor(private _position: Vector3, private hitbox: Capsule) {
+    this.previousPosition = _position;
+  }
 
   public get position(): Vector3 {
     return this._position;
   }
 
+  /**
+   * Gets the position between the last two physics steps.
+   * @param alpha How far between the previous and current position, from 0 to 1.
+   * @returns The interpolated position.
+   */
+  public getInterpolatedPosition(alpha: number): Vector3 {
+    return this.previousPosition.lerp(this._position, alpha);
+  }
+
+  /** Returns the position of the bottom of the entity's hitbox. */
+  public get feetPosition(): Vector3 {
+    return this._position.add(this.hitbox.bottomOffset);
+  }
+
+  /** Moves the entity so that the bottom of its hitbox rests on a position. */
+  public set feetPosition(position: Vector3) {
+    this._position = this.previousPosition = position.subtract(this.hitbox.bottomOffset);
+  }
+
   public get moveDirection(): Vector3 {
     return this._moveDirection;
   }
@@ -64,6 +88,40 @@ export abstract class Entity {
     this.fallSpeed -= magnitude;
   }
 
+  /** Moves the hitbox to the entity's current position and facing. */
+  private updateHitbox(): void {
+    this.hitbox.transformation = Matrix4.fromPosition(this._position).multiply(this._faceMatrix);
+  }
+
+  /** Returns the entities whose hitboxes this entity cannot move through, none by default. */
+  protected get blockingEntities(): Entity[] {
+    return [];
+  }
+
+  /**
+   * Casts a ray against the entity's hitbox.
+   * @param ray The ray.
+   * @param maxDistance The maximum distance along the ray, defaulting to infinity.
+   * @returns The raycast info if the ray hits the hitbox within range.
+   */
+  public raycast(ray: Ray, maxDistance: number = Infinity): RaycastInfo | undefined {
+    this.updateHitbox();
+
+    const intersection: [number, Vector3] | undefined = this.hitbox.getRayIntersection(ray);
+    if (!intersection || intersection[0] > maxDistance) return;
+
+    const [t, normal]: [number, Vector3] = intersection;
+
+    return { t, normal, position: ray.getPoint(t) };
+  }
+
+  /**
+   * Marks where a scan ray hit the entity's hitbox, doing nothing unless the entity can be revealed.
+   * @param position The hit position.
+   * @param normal The hitbox normal at the hit position.
+   */
+  public reveal(position: Vector3, normal: Vector3): void {}
+
   /**
    * Handles collisions for a specified surface type.
    * @param vertical Whether or not they should be vertical.
@@ -72,15 +130,12 @@ export abstract class Entity {
    * - The total collision correction.
    */
   private handleCollisions(vertical: boolean): [boolean, Vector3] {
-    this.hitbox.transformation = Matrix4.fromPosition(this._position).multiply(this._faceMatrix);
+    this.updateHitbox();
 
     const corrections: Vector3[] = [];
 
     for (const collision of Game.instance.bvh.collisionQuery(this.hitbox)) {
-      const angle: number = Math.acos(collision.normal.dot(Vector3.y));
-      const isVertical: boolean = angle <= this.MAX_VERTICAL_SLOPE || angle >= Math.PI - this.MAX_VERTICAL_SLOPE;
-
-      if (isVertical != vertical) continue; // Skip if vertical and the angle exceeds the max slope
+      if (Surface.isVertical(collision.normal) != vertical) continue; // Skip if vertical and the angle exceeds the max slope
 
       const correction: Vector3 = collision.normal.multiply(collision.overlap);
 
@@ -120,11 +175,55 @@ export abstract class Entity {
     return [corrections.length > 0, totalCorrection];
   }
 
+  /**
+   * Shortens a move displacement so the entity stops where its hitbox first touches a blocking entity, sliding along it for the rest of the move.
+   * @param displacement The move displacement.
+   * @returns The clipped displacement.
+   */
+  private clipToEntities(displacement: Vector3): Vector3 {
+    this.updateHitbox();
+
+    let fraction: number = 1;
+    let contactNormal: Vector3 | undefined;
+
+    // Find the earliest contact along the move
+    for (const entity of this.blockingEntities) {
+      entity.updateHitbox();
+
+      const sweep: [number, Vector3] | undefined = this.hitbox.sweep(displacement, entity.hitbox);
+
+      if (sweep && sweep[0] < fraction) [fraction, contactNormal] = sweep;
+    }
+
+    if (!contactNormal) return displacement;
+
+    const remaining: Vector3 = displacement.multiply(1 - fraction);
+
+    // Only remove the part of the remaining move heading into the other entity
+    if (remaining.dot(contactNormal) < 0) return displacement.multiply(fraction).add(remaining.getOrthogonalComponent(contactNormal));
+
+    return displacement;
+  }
+
+  /** Pushes the entity horizontally out of any blocking entities its hitbox overlaps. */
+  private separateFromEntities(): void {
+    for (const entity of this.blockingEntities) {
+      this.updateHitbox();
+      entity.updateHitbox();
+
+      const [overlapping, normal, overlap]: [boolean, Vector3?, number?] = this.hitbox.getCapsuleIntersection(entity.hitbox);
+
+      if (overlapping && normal && overlap) this._position = this._position.add(new Vector3(normal.x, 0, normal.z).multiply(overlap));
+    }
+  }
+
   /**
    * Handle the physics and collisions for the entity.
    * @param deltaTime The time passed since the last frame.
    */
   public updatePhysics(deltaTime: number): void {
+    this.previousPosition = this._position;
+
     // Calculate the fall velocity and gravity acceleration displacements
     const fallDisplacement: Vector3 = Vector3.y.multiply(-this.fallSpeed * deltaTime);
     const gravDisplacement: Vector3 = Vector3.y.multiply(-this.GRAV_ACCEL * deltaTime ** 2 / 2);
@@ -140,9 +239,10 @@ export abstract class Entity {
     if (verticalCollision && verticalCorrection.dot(Vector3.y) > 0) this._onFloor = true;
     else this._onFloor = false;
 
-    const moveDisplacement: Vector3 = this._moveDirection.multiply(this._moveSpeed * deltaTime); // Handle move displacement
+    const moveDisplacement: Vector3 = this.clipToEntities(this._moveDirection.multiply(this._moveSpeed * deltaTime)); // Handle move displacement
     this._position = this._position.add(moveDisplacement);
     
     this.handleCollisions(false); // Handle wall collisions
+    this.separateFromEntities(); // Handle entity collisions
   }
 }
\ No newline at end of file
@@ -1,135 +1,452 @@
 import { AudioEmission, AudioEmitter } from "../audio/audiomanager.js";
-import { RaycastInfo } from "../collisions/bvh.js";
+import { SceneRaycastInfo } from "../collisions/scenequery.js";
 import { Capsule, Ray } from "../collisions/collisions.js";
 import { Entity } from "./entity.js";
+import { EventConnection, GameEvent } from "../util/gameevent.js";
 import { Game } from "../core/game.js";
 import { Matrix4 } from "../math/matrix4.js";
+import { Noise, Perception, PerceptionConfig } from "./perception.js";
 import { RenderModel } from "../mesh/mesh.js";
 import { Player } from "./player.js";
+import { StateMachine } from "../util/statemachine.js";
 import { Timer } from "../util/timer.js";
 import { Vector3 } from "../math/vector3.js";
 
-export class Monster extends Entity {
-  private readonly MOVE_AGGRO_RANGE: number = 50;
-  private readonly MOVE_AGGRO_RATE: number = 60;
-  private readonly SCAN_AGGRO_RATE: number = 180;
-  private readonly KILL_RANGE: number = 1;
+export type MonsterState = "roam" | "alert" | "investigate" | "stalk" | "chase" | "retreat";
+
+/** Defines the tuning of a monster's senses, aggression and behaviour states, loaded from a json config. */
+export interface MonsterConfig {
+  killRange: number,
+  aggressionDrainRate: number,
+  /** The time after last being aggressed before aggression starts draining. */
+  aggressionCooldown: number,
+  sightAggroRate: number,
+  hearingAggroAmount: number,
+  scanAggroRate: number,
+  jumpVelocity: number,
+  waypointRange: number,
+  repathTime: number,
+  perception: PerceptionConfig,
+  roam: { speed: number, radius: number, minChangeTime: number, maxChangeTime: number },
+  alert: { threshold: number, duration: number },
+  investigate: { speed: number, searchRadius: number, duration: number },
+  stalk: { speed: number, distance: number, duration: number },
+  chase: { speed: number, duration: number },
+  retreat: { speed: number, distance: number, duration: number }
+}
 
-  private readonly ROAM_SPEED: number = 8;
-  private readonly CHASE_SPEED: number = 18;
+export class Monster extends Entity {
+  /** The states each behaviour state is allowed to transition to. */
+  private readonly TRANSITIONS: Record<MonsterState, MonsterState[]> = {
+    roam: ["alert", "chase"],
+    alert: ["roam", "investigate", "chase"],
+    investigate: ["roam", "stalk", "chase"],
+    stalk: ["roam", "retreat", "chase"],
+    chase: ["investigate", "retreat"],
+    retreat: ["roam"]
+  };
 
   public readonly MAX_AGGRESSION: number = 100;
-  private readonly AGGRESSION_DRAIN_RATE: number = 5;
+  /** The move speed footsteps play at their normal frequency. */
+  private readonly FOOTSTEP_SPEED: number = 8;
 
   private _aggression: number = 0;
-  private recentlyAggressed: Timer = new Timer(10);
-  private chasingTimer: Timer = new Timer(10);
-  private roamChangeTimer: Timer;
+  private recentlyAggressed: Timer;
+  private roamChangeTimer?: Timer;
+  private repathTimer: Timer;
+  private jumpTimer: Timer = new Timer(1);
+
+  /** The remaining waypoints of the current path, undefined if no path could be found. */
+  private path?: Vector3[];
+
+  private perception: Perception;
+  private behaviour: StateMachine<MonsterState>;
+  private noiseConnection: EventConnection;
 
   private heartbeatEmitter: AudioEmitter = Game.instance.audioManager.get("heartbeat").createEmitter();
-  private screamAudio: AudioEmission;
+  private footstepEmitter: AudioEmitter = Game.instance.audioManager.get("footstep").createEmitter();
+  private screamAudio?: AudioEmission;
 
-  constructor(private model: RenderModel, private target: Player) {
+  /**
+   * Creates a monster.
+   * @param model The monster's render model.
+   * @param target The player being hunted.
+   * @param config The archetype tuning.
+   * @param position The spawn position.
+   */
+  constructor(private model: RenderModel, private target: Player, private config: MonsterConfig, position: Vector3) {
     super(
-      new Vector3(-70, 0, -60),
+      position,
       new Capsule(
         new Vector3(0, -2, 0),
         new Vector3(0, 6.9, 0),
         1.5
       )
     );
+
+    this.recentlyAggressed = new Timer(config.aggressionCooldown);
+    this.repathTimer = new Timer(config.repathTime);
+    this.perception = new Perception(this, new Vector3(0, 6, 0), config.perception);
+
+    this.footstepEmitter.subject = this; // Position footsteps at the monster
+
+    this.behaviour = new StateMachine<MonsterState>({
+      roam: {
+        update: () => this.roam(this.feetPosition, this.config.roam.radius)
+      },
+      alert: {
+        enter: () => this.heartbeatEmitter.start(),
+        update: () => this.faceLastKnownPosition()
+      },
+      investigate: {
+        enter: () => this.pathTo(this.perception.lastKnownPosition),
+        update: () => this.investigate()
+      },
+      stalk: {
+        update: () => this.stalk()
+      },
+      chase: {
+        enter: () => this.startChasing(),
+        update: () => this.chase()
+      },
+      retreat: {
+        enter: () => this.startRetreating(),
+        update: () => this.followPath()
+      }
+    }, this.TRANSITIONS, "roam");
+
+    // Listen to the noises made by the target
+    this.noiseConnection = this.target.noiseMade.connect((noise: Noise) => {
+      this.perception.hear(noise);
+    });
+
+    this.behaviour.start();
+  }
+
+  /** Keeps monsters from walking through each other, while still letting them reach the player. */
+  protected get blockingEntities(): Entity[] {
+    return [...Game.instance.monsters].filter((monster: Monster) => monster !== this);
   }
 
   public get aggression(): number {
     return this._aggression;
   }
 
-  /** Handle monster aiming and moving based on player target. */
-  public prePhysicsBehaviour(): void {
-    if (this.chasingTimer.active) {
-      this.moveSpeed = this.CHASE_SPEED;
-      this.aimDirection = this.moveDirection = this.target.position.subtract(this.position);
+  public get state(): MonsterState {
+    return this.behaviour.state;
+  }
+
+  /** Returns the event fired with the new and previous state whenever the monster changes behaviour state. */
+  public get stateChanged(): GameEvent {
+    return this.behaviour.transitioned;
+  }
+
+  /**
+   * Handle monster aiming and moving based on its behaviour state.
+   * @param deltaTime The time passed.
+   */
+  public prePhysicsBehaviour(deltaTime: number): void {
+    this.behaviour.update(deltaTime);
+
+    // Step faster the faster the monster moves
+    if (this.moveSpeed > 0 && this.moveDirection.magnitude > 0) {
+      this.footstepEmitter.frequency = this.moveSpeed / this.FOOTSTEP_SPEED;
+      this.footstepEmitter.start();
 
     } else {
-      this.moveSpeed = this.ROAM_SPEED;
+      this.footstepEmitter.stop();
+    }
+  }
 
-      if (!this.roamChangeTimer || !this.roamChangeTimer.active) {
-        this.roamChangeTimer = new Timer(5 + 5 * Math.random());
-        this.roamChangeTimer.start();
+  /**
+   * Finds a path to a destination, clearing the current path if there is no destination.
+   * @param destination The destination feet position.
+   */
+  private pathTo(destination?: Vector3): void {
+    if (destination) {
+      this.path = Game.instance.navGrid.findPath(this.feetPosition, destination);
+
+    } else {
+      delete this.path;
+    }
+  }
 
-        const angle: number = 2 * Math.PI * Math.random();
+  /**
+   * Wanders between random destinations around a center.
+   * @param center The center to wander around.
+   * @param radius The maximum distance of destinations from the center.
+   */
+  private roam(center: Vector3, radius: number): void {
+    this.moveSpeed = this.config.roam.speed;
+
+    const reachedDestination: boolean = this.path !== undefined && this.path.length === 0;
+
+    if (!this.roamChangeTimer || !this.roamChangeTimer.active || reachedDestination) {
+      const { minChangeTime, maxChangeTime } = this.config.roam;
+
+      this.roamChangeTimer = new Timer(Game.instance.random.range(minChangeTime, maxChangeTime));
+      this.roamChangeTimer.start();
+
+      this.pathTo(Game.instance.navGrid.getRandomPosition(center, radius, () => Game.instance.random.next()));
+
+      // Wander in a random direction if there is nowhere to path to
+      if (!this.path) {
+        const angle: number = 2 * Math.PI * Game.instance.random.next();
         const direction: Vector3 = new Vector3(Math.cos(angle), 0, Math.sin(angle));
 
         this.aimDirection = this.moveDirection = direction;
       }
     }
+
+    this.followPath();
+  }
+
+  /** Stands still and turns towards the last known position of the target. */
+  private faceLastKnownPosition(): void {
+    this.moveSpeed = 0;
+
+    const lastKnownPosition: Vector3 | undefined = this.perception.lastKnownPosition;
+    if (lastKnownPosition) this.aimDirection = lastKnownPosition.subtract(this.feetPosition);
+  }
+
+  /** Heads towards the last known position, and searches around it once it is reached. */
+  private investigate(): void {
+    const lastKnownPosition: Vector3 | undefined = this.perception.lastKnownPosition;
+
+    if (this.followPath()) {
+      this.moveSpeed = this.config.investigate.speed;
+
+    } else if (lastKnownPosition) {
+      this.roam(lastKnownPosition, this.config.investigate.searchRadius);
+    }
+  }
+
+  /** Follows the target while keeping its distance. */
+  private stalk(): void {
+    if (!this.repathTimer.active) {
+      this.repathTimer.start();
+      this.pathTo(this.perception.lastKnownPosition);
+    }
+
+    const distance: number = this.target.position.subtract(this.position).magnitude;
+
+    if (distance > this.config.stalk.distance && this.followPath()) {
+      this.moveSpeed = this.config.stalk.speed;
+
+    } else {
+      this.faceLastKnownPosition();
+    }
+  }
+
+  /** Screams and resets aggression upon starting a chase. */
+  private startChasing(): void {
+    this._aggression = 0;
+    this.heartbeatEmitter.stop();
+    this.repathTimer.stop();
+
+    this.screamAudio = Game.instance.audioManager.get("aggression").emit(true);
+    this.screamAudio.subject = this;
+  }
+
+  /** Chases the target's current position. */
+  private chase(): void {
+    this.moveSpeed = this.config.chase.speed;
+
+    // Periodically update the path to the target's current position
+    if (!this.repathTimer.active) {
+      this.repathTimer.start();
+      this.pathTo(this.target.feetPosition);
+    }
+
+    // Head straight for the target if there is no path to follow
+    if (!this.followPath()) this.aimDirection = this.moveDirection = this.target.position.subtract(this.position);
+  }
+
+  /** Picks the furthest of a few random destinations from the target to retreat to. */
+  private startRetreating(): void {
+    this.heartbeatEmitter.stop();
+    this.moveSpeed = this.config.retreat.speed;
+
+    let furthest: Vector3 | undefined;
+    let furthestDistance: number = 0;
+
+    for (let i = 0; i < 3; i++) {
+      const destination: Vector3 | undefined = Game.instance.navGrid.getRandomPosition(this.feetPosition, this.config.retreat.distance, () => Game.instance.random.next());
+      if (!destination) continue;
+
+      const distance: number = destination.subtract(this.target.feetPosition).magnitude;
+
+      if (distance > furthestDistance) {
+        furthest = destination;
+        furthestDistance = distance;
+      }
+    }
+
+    this.pathTo(furthest);
   }
 
   /**
-   * Handle the monster aggression and killing logic, and update the monster model transformation.
+   * Aims and moves the monster towards the next waypoint of its path, jumping if the waypoint is too high to step onto.
+   * @returns True if there is a waypoint to follow, false if otherwise.
+   */
+  private followPath(): boolean {
+    if (!this.path) return false;
+
+    const feetPosition: Vector3 = this.feetPosition;
+
+    // Remove the waypoints that have been reached
+    while (this.path.length > 0) {
+      const offset: Vector3 = this.path[0].subtract(feetPosition);
+      if (new Vector3(offset.x, 0, offset.z).magnitude > this.config.waypointRange) break;
+
+      this.path.shift();
+    }
+
+    if (this.path.length === 0) return false;
+
+    const waypoint: Vector3 = this.path[0];
+
+    this.aimDirection = this.moveDirection = waypoint.subtract(feetPosition);
+
+    // Jump up onto waypoints that are too tall to step onto
+    if (waypoint.y - feetPosition.y > Game.instance.navGrid.STEP_HEIGHT && this.onFloor && !this.jumpTimer.active) {
+      this.jumpTimer.start();
+      this.impulseUp(this.config.jumpVelocity);
+    }
+
+    return true;
+  }
+
+  /**
+   * Determines whether or not the monster is within the area of the target's active scan and not hidden behind anything.
+   * @returns True if being scanned, false if otherwise.
+   */
+  private isScanned(): boolean {
+    if (!this.target.scanning) return false;
+
+    const scanAngleDirection: Vector3 = this.position.subtract(this.target.scanOrigin);
+
+    if (!this.target.scanMode.covers(this.target, scanAngleDirection)) return false; // If monster is outside the scan's area
+
+    const ray: Ray = new Ray(this.target.position, scanAngleDirection.unit); // Create ray from target to monster
+    const info: SceneRaycastInfo | undefined = Game.instance.scene.raycast(ray, Infinity, [this.target]);
+
+    return !info || info.entity === this || scanAngleDirection.magnitude < info.t; // Check if anything is in the way
+  }
+
+  /**
+   * Changes state if the current state's conditions for leaving it are met.
+   * @param visibility The current visibility of the target.
+   */
+  private updateState(visibility: number): void {
+    const state: MonsterState = this.behaviour.state;
+    const time: number = this.behaviour.timeInState;
+    const distance: number = this.target.position.subtract(this.position).magnitude;
+    const remembered: boolean = this.perception.lastKnownPosition !== undefined;
+
+    if (this._aggression === this.MAX_AGGRESSION && this.behaviour.canTransition("chase")) { // Start chasing if aggression is at max
+      this.behaviour.transition("chase");
+
+    } else if (state === "roam") {
+      if (this._aggression >= this.config.alert.threshold) this.behaviour.transition("alert");
+
+    } else if (state === "alert") {
+      if (this._aggression === 0) this.behaviour.transition("roam");
+      else if (time > this.config.alert.duration && remembered) this.behaviour.transition("investigate");
+
+    } else if (state === "investigate") {
+      if (visibility > 0 && distance > this.config.stalk.distance) this.behaviour.transition("stalk");
+      else if (time > this.config.investigate.duration || !remembered) this.behaviour.transition("roam");
+
+    } else if (state === "stalk") {
+      if (this.isScanned()) this.behaviour.transition("retreat"); // Back away if spotted
+      else if (time > this.config.stalk.duration) this.behaviour.transition("chase");
+      else if (!remembered) this.behaviour.transition("roam");
+
+    } else if (state === "chase") {
+      if (distance < this.config.killRange) Game.instance.end("death"); // End the game if close enough to the target
+      else if (time > this.config.chase.duration) this.behaviour.transition(remembered ? "investigate" : "retreat");
+
+    } else if (state === "retreat") {
+      if (time > this.config.retreat.duration) this.behaviour.transition("roam");
+    }
+  }
+
+  /**
+   * Handle the monster perception, aggression and state changes.
    * @param deltaTime The time passed.
    */
   public postPhysicsBehaviour(deltaTime: number): void {
-    const distance: number = this.target.position.subtract(this.position).magnitude;
+    const state: MonsterState = this.behaviour.state;
 
-    if (!this.chasingTimer.active) {
-      let aggressionChangeRate: number = 0;
+    this.perception.update(deltaTime);
 
-      // Handle aggression if target is moving nearby
-      if (this.target.moveDirection.magnitude > 0 && distance < this.MOVE_AGGRO_RANGE) {
-        aggressionChangeRate += this.MOVE_AGGRO_RATE * (1 - distance / this.MOVE_AGGRO_RANGE) * this.target.moveSpeed / 16;
-      }
+    const visibility: number = this.perception.getVisibility(this.target);
+    const heardLoudness: number = this.perception.consumeHeardLoudness();
 
-      if (this.target.scanning) { // If target is scanning
-        const scanAngleDirection: Vector3 = this.position.subtract(this.target.scanOrigin);
-        const scanAngleDifference: number = Math.acos(this.target.aimDirection.dot(scanAngleDirection.unit));
+    if (visibility > 0) this.perception.remember(this.target.feetPosition); // Keep track of the target while it is in sight
 
-        if (scanAngleDifference <= this.target.scanAngle) { // If monster is within scan cone range
-          const ray: Ray = new Ray(this.target.position, scanAngleDirection.unit); // Create ray from target to monster
-          const info: RaycastInfo | undefined = Game.instance.bvh.raycast(ray);
+    // Head towards any new noises while investigating
+    if (heardLoudness > 0 && state === "investigate") this.pathTo(this.perception.lastKnownPosition);
 
-          if (!info || scanAngleDirection.magnitude < info.t) { // Check if anything is in the way
-            aggressionChangeRate += this.SCAN_AGGRO_RATE;
-          }
-        }
-      }
-  
-      if (aggressionChangeRate > 0) {
-        this.recentlyAggressed.start();
-        this._aggression = Math.min(this._aggression + aggressionChangeRate * deltaTime, this.MAX_AGGRESSION);
+    if (state !== "chase" && state !== "retreat") {
+      let aggressionChangeRate: number = this.config.sightAggroRate * visibility; // Handle aggression if target is in sight
+      const aggressionImpulse: number = this.config.hearingAggroAmount * heardLoudness; // Handle aggression from heard noises
 
-        if (this._aggression === this.MAX_AGGRESSION) { // Start chasing if aggression is at max
-          this.chasingTimer.start();
-          this._aggression = 0;
+      if (state !== "stalk" && this.isScanned()) aggressionChangeRate += this.config.scanAggroRate * this.target.scanMode.aggressionScale; // Each scan mode costs its own aggression
 
-          this.screamAudio = Game.instance.audioManager.get("aggression").emit(true);
-          this.screamAudio.subject = this;
-        }
+      if (aggressionChangeRate > 0 || aggressionImpulse > 0) {
+        this.recentlyAggressed.start();
+        this._aggression = Math.min(this._aggression + aggressionChangeRate * deltaTime + aggressionImpulse, this.MAX_AGGRESSION);
       }
-  
+
       if (!this.recentlyAggressed.active) {
-        this._aggression = Math.max(this._aggression - this.AGGRESSION_DRAIN_RATE * deltaTime, 0);
+        this._aggression = Math.max(this._aggression - this.config.aggressionDrainRate * deltaTime, 0);
       }
-
-    } else {
-      if (distance < this.KILL_RANGE) Game.instance.end(); // End the game if close enough to the target
     }
 
+    this.updateState(visibility);
+
     const aggressionPercent: number = this._aggression / this.MAX_AGGRESSION;
 
     // Increase heartbeat intensity as aggression increases
     this.heartbeatEmitter.volume = 1 + 0.5 * aggressionPercent;
     this.heartbeatEmitter.frequency = 1 + 1.3 * aggressionPercent;
 
-    if (this._aggression > 0 && !this.chasingTimer.active) this.heartbeatEmitter.start();
-    else this.heartbeatEmitter.stop();
+    // Only beat while roaming once aggression builds up, since the other states start and stop it as they are entered
+    if (this.behaviour.state === "roam") {
+      if (this._aggression > 0) this.heartbeatEmitter.start();
+      else this.heartbeatEmitter.stop();
+    }
+  }
+
+  /**
+   * Update the monster model transformation between physics steps.
+   * @param alpha How far the frame is between the last step and the next.
+   */
+  public updateModel(alpha: number): void {
+    this.model.transformation = Matrix4.fromPosition(this.getInterpolatedPosition(alpha)).multiply(this.faceMatrix);
+  }
+
+  /**
+   * Attaches a dot to the monster where a scan ray hit it, clinging to it until the dot fades out.
+   * @param position The hit position.
+   * @param normal The hitbox normal at the hit position.
+   */
+  public reveal(position: Vector3, normal: Vector3): void {
+    const inverseFace: Matrix4 = this.faceMatrix.transpose(); // The face matrix is a rotation, so its transpose is its inverse
 
-    this.model.transformation = Matrix4.fromPosition(this.position).multiply(this.faceMatrix); // Update monster model
+    Game.instance.canvas.attachDot(this.model, inverseFace.apply(position.subtract(this.position)), inverseFace.apply(normal));
   }
 
-  /** Destroy audio instances tied to the monster. */
+  /** Destroy audio instances, connections and the render model tied to the monster. */
   public destroy(): void {
+    Game.instance.canvas.unregisterModel(this.model);
+
+    this.noiseConnection.disconnect();
     this.heartbeatEmitter.stop();
-    this.screamAudio.stop();
+    this.footstepEmitter.stop();
+
+    if (this.screamAudio) this.screamAudio.stop();
   }
-}
\ No newline at end of file
+}
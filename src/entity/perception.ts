@@ -0,0 +1,120 @@
+import { Entity } from "./entity.js";
+import { Game } from "../core/game.js";
+import { Vector3 } from "../math/vector3.js";
+
+/** Represents a sound made in the world that can be heard by perceiving entities. */
+export interface Noise {
+  position: Vector3,
+  range: number
+}
+
+/** Defines the tuning of an entity's senses. */
+export interface PerceptionConfig {
+  viewRange: number,
+  /** The half angle of the view cone in degrees. */
+  viewAngle: number,
+  /** The multiplier applied to the range of heard noises. */
+  hearingScale: number,
+  occludedHearingScale: number,
+  memoryDuration: number
+}
+
+/** Handles an entity's senses of sight and hearing, and its memory of where it last sensed its target. */
+export class Perception {
+  private heardLoudness: number = 0;
+  private _lastKnownPosition?: Vector3;
+  private _memory: number = 0;
+
+  /**
+   * Creates the perception for an entity.
+   * @param owner The perceiving entity.
+   * @param eyeOffset The offset of the entity's eyes and ears from its position.
+   * @param config The tuning of the senses.
+   */
+  constructor(private owner: Entity, private eyeOffset: Vector3, private config: PerceptionConfig) {}
+
+  /** Returns the world position the entity perceives from. */
+  public get eyePosition(): Vector3 {
+    return this.owner.position.add(this.eyeOffset);
+  }
+
+  /** Returns the last position the target was sensed at, if it has not been forgotten. */
+  public get lastKnownPosition(): Vector3 | undefined {
+    return this._lastKnownPosition;
+  }
+
+  /** Returns how fresh the memory of the last known position is, from 0 to 1. */
+  public get memory(): number {
+    return this._memory;
+  }
+
+  /**
+   * Determines how visible a target is within the view cone.
+   * @param target The target entity.
+   * @returns The visibility from 0 to 1 based on distance, or 0 if out of view or occluded.
+   */
+  public getVisibility(target: Entity): number {
+    const offset: Vector3 = target.position.subtract(this.eyePosition);
+    const distance: number = offset.magnitude;
+
+    if (distance > this.config.viewRange) return 0;
+    if (Math.acos(this.owner.aimDirection.dot(offset.unit)) > this.config.viewAngle * Math.PI / 180) return 0; // Outside the view cone
+    if (Game.instance.scene.isOccluded(this.eyePosition, target.position, [this.owner, target])) return 0; // Blocked by the level or another entity
+
+    return 1 - distance / this.config.viewRange;
+  }
+
+  /**
+   * Hears a noise, attenuating it by distance and any occluding geometry, and remembering where it came from.
+   * @param noise The noise.
+   */
+  public hear(noise: Noise): void {
+    const distance: number = noise.position.subtract(this.eyePosition).magnitude;
+    const range: number = noise.range * this.config.hearingScale;
+    if (distance >= range) return;
+
+    let loudness: number = 1 - distance / range;
+
+    if (Game.instance.bvh.isOccluded(noise.position, this.eyePosition)) loudness *= this.config.occludedHearingScale;
+
+    this.heardLoudness += loudness;
+    this.remember(noise.position);
+  }
+
+  /**
+   * Returns the total loudness of the noises heard since the last call.
+   * @returns The total loudness.
+   */
+  public consumeHeardLoudness(): number {
+    const loudness: number = this.heardLoudness;
+
+    this.heardLoudness = 0; // Reset loudness for next frame
+
+    return loudness;
+  }
+
+  /**
+   * Remembers a position the target was sensed at, refreshing the memory.
+   * @param position The sensed position.
+   */
+  public remember(position: Vector3): void {
+    this._lastKnownPosition = position;
+    this._memory = 1;
+  }
+
+  /** Clears the memory of the last known position. */
+  public forget(): void {
+    delete this._lastKnownPosition;
+    this._memory = 0;
+  }
+
+  /**
+   * Decays the memory of the last known position over time.
+   * @param deltaTime The time passed.
+   */
+  public update(deltaTime: number): void {
+    this._memory = Math.max(this._memory - deltaTime / this.config.memoryDuration, 0);
+
+    if (this._memory === 0) this.forget();
+  }
+}
@@ -1,53 +1,91 @@
 import { AudioEmission, AudioEmitter } from "../audio/audiomanager.js";
-import { RaycastInfo } from "../collisions/bvh.js";
 import { Capsule, Ray } from "../collisions/collisions.js";
+import { SceneRaycastInfo } from "../collisions/scenequery.js";
 import { Control } from "../interfacing/controller.js";
 import { Entity } from "./entity.js";
 import { Game } from "../core/game.js";
-import { Matrix4 } from "../math/matrix4.js";
+import { GameEvent } from "../util/gameevent.js";
+import { Noise } from "./perception.js";
+import { BeamScan, ConeScan, PulseScan, ScanMode, SweepScan } from "./scanmodes.js";
 import { Timer } from "../util/timer.js";
 import { Util } from "../util/util.js";
 import { Vector3 } from "../math/vector3.js";
 
 export class Player extends Entity {
+  /** Fired with a noise whenever the player makes a sound that can be heard. */
+  public readonly noiseMade: GameEvent = new GameEvent();
+  /** Fired with the positions the dots of a scan burst landed on. */
+  public readonly scanned: GameEvent = new GameEvent();
+
   public readonly MIN_SCAN_ANGLE: number = 3 * Math.PI / 180;
   public readonly MAX_SCAN_ANGLE: number = 30 * Math.PI / 180;
-  private readonly DOTS_PER_SCAN: number = 120;
+
+  private readonly FOOTSTEP_NOISE_RANGE: number = 40;
 
   private readonly WALK_SPEED: number = 8;
   private readonly SPRINT_SPEED: number = 16;
   private readonly JUMP_VELOCITY: number = 30;
+  private readonly SPRINT_FOV_INCREASE: number = 30;
 
   public readonly MAX_STAMINA: number = 100;
   private readonly STAMINA_DRAIN_RATE: number = 8;
   private readonly STAMINA_FILL_RATE = 5;
 
+  public readonly MAX_ENERGY: number = 100;
+  private readonly ENERGY_FILL_RATE: number = 10;
+  /** The energy the scanner has to recharge to after overheating before it can scan again. */
+  private readonly OVERHEAT_RECOVERY: number = 40;
+
   private _stamina: number = this.MAX_STAMINA;
+  private _energy: number = this.MAX_ENERGY;
+  private _overheated: boolean = false;
   private jumpTimer: Timer = new Timer(1);
 
   private _scanning: boolean = false;
   private _scanOrigin: Vector3 = Vector3.zero;
   private _scanAngle: number = this.MIN_SCAN_ANGLE;
-  private scanTimer: Timer = new Timer(0.05);
+
+  /** The scan tools the switch control cycles through. */
+  private readonly scanModes: ScanMode[] = [new ConeScan(), new SweepScan(), new PulseScan(), new BeamScan()];
+  private scanModeIndex: number = 0;
+  private switchHeld: boolean = false;
 
   private footstepEmitter: AudioEmitter = Game.instance.audioManager.get("footstep").createEmitter();
   private scanAudio?: AudioEmission;
 
-  constructor() {
+  /**
+   * Creates the player.
+   * @param position The spawn position.
+   */
+  constructor(position: Vector3) {
     super(
-      Vector3.zero,
+      position,
       new Capsule(
         new Vector3(0, -2, 0),
         new Vector3(0, 2, 0),
         1.5
       )
     );
+
+    // Make a noise with every footstep, louder when sprinting
+    this.footstepEmitter.emitted.connect((volume: number) => {
+      this.makeNoise(this.feetPosition, this.FOOTSTEP_NOISE_RANGE * volume);
+    });
   }
 
   public get stamina(): number {
     return this._stamina;
   }
 
+  public get energy(): number {
+    return this._energy;
+  }
+
+  /** Returns whether or not the scanner ran out of energy and is locked until it recharges. */
+  public get overheated(): boolean {
+    return this._overheated;
+  }
+
   public get scanning(): boolean {
     return this._scanning;
   }
@@ -56,13 +94,49 @@ export class Player extends Entity {
     return this._scanAngle;
   }
 
+  /** Returns the selected scan tool. */
+  public get scanMode(): ScanMode {
+    return this.scanModes[this.scanModeIndex];
+  }
+
   /** Returns the origin position of the last scan's rays. */
   public get scanOrigin(): Vector3 {
     return this._scanOrigin;
   }
 
   /**
-   * Handle aim and move direction inputs, sprinting and jumping.
+   * Fires a noise event for listeners to hear.
+   * @param position The position of the noise.
+   * @param range The distance the noise can be heard from.
+   */
+  private makeNoise(position: Vector3, range: number): void {
+    const noise: Noise = { position, range };
+
+    this.noiseMade.fire(noise);
+  }
+
+  /**
+   * Restores scanner energy, ending an overheat once recharged enough.
+   * @param amount The energy restored.
+   */
+  public restoreEnergy(amount: number): void {
+    this._energy = Math.min(this._energy + amount, this.MAX_ENERGY);
+
+    if (this._overheated && this._energy >= this.OVERHEAT_RECOVERY) this._overheated = false;
+  }
+
+  /**
+   * Drains scanner energy, overheating the scanner once it runs out.
+   * @param amount The energy drained.
+   */
+  private drainEnergy(amount: number): void {
+    this._energy = Math.max(this._energy - amount, 0);
+
+    if (this._energy === 0) this._overheated = true;
+  }
+
+  /**
+   * Handle aim and move direction inputs, sprinting, jumping and scanner recharging.
    * @param deltaTime The time passed.
    */
   public prePhysicsBehaviour(deltaTime: number): void {
@@ -82,6 +156,7 @@ export class Player extends Entity {
     }
 
     let sprinting: boolean = false;
+    const baseFov: number = Game.instance.settings.get("baseFov");
 
     if (Game.instance.controller.controlActive(Control.sprint) && this.moveDirection.magnitude > 0) {
       this._stamina = Math.max(this._stamina - this.STAMINA_DRAIN_RATE * deltaTime, 0);
@@ -97,7 +172,7 @@ export class Player extends Entity {
       this.footstepEmitter.volume = 1.5;
       this.footstepEmitter.frequency = 2;
 
-      Game.instance.camera.fov = 100;
+      Game.instance.camera.fov = Game.instance.settings.get("sprintFov") ? baseFov + this.SPRINT_FOV_INCREASE : baseFov;
 
     } else {
       this.moveSpeed = this.WALK_SPEED;
@@ -105,48 +180,63 @@ export class Player extends Entity {
       this.footstepEmitter.volume = 1;
       this.footstepEmitter.frequency = 1;
 
-      Game.instance.camera.fov = 70;
+      Game.instance.camera.fov = baseFov;
     }
 
     if (this.moveDirection.magnitude > 0) this.footstepEmitter.start();
     else this.footstepEmitter.stop();
+
+    if (!this._scanning) this.restoreEnergy(this.ENERGY_FILL_RATE * deltaTime); // Recharge the scanner while it is not in use
   }
 
-  /** Handle player scanning. */
+  /** Handle switching scan modes and player scanning. */
   public postPhysicsBehaviour(): void {
     const scrollAmount: number = Game.instance.controller.scrollMovement;
     this._scanAngle = Util.clamp(this._scanAngle + scrollAmount, this.MIN_SCAN_ANGLE, this.MAX_SCAN_ANGLE);
 
+    // Cycle to the next scan mode once per press
+    const switchHeld: boolean = Game.instance.controller.controlActive(Control.switchScan);
+    if (switchHeld && !this.switchHeld) this.scanModeIndex = (this.scanModeIndex + 1) % this.scanModes.length;
+    this.switchHeld = switchHeld;
+
     this._scanOrigin = Game.instance.camera.position;
-    
-    if (Game.instance.controller.controlActive(Control.scan)) {
-      this._scanning = true;
-
-      if (!this.scanTimer.active) {
-        this.scanTimer.start();
-
-        for (let i: number = 0; i < this.DOTS_PER_SCAN; i++) {
-          const roll: number = 2 * Math.PI * Math.random();
-          const pitch: number = this._scanAngle * Math.random();
-  
-          const pitchMatrix = Matrix4.fromAxisAngle(this.aimDirection.perpendicular, pitch); // Get axis angle rotation matrix for pitching the direction
-          const rollMatrix = Matrix4.fromAxisAngle(this.aimDirection, roll); // Get the axis angle rotation around the direction vector
-
-          // Apply pitch matrix and roll matrix to direction to get random cone range effect
-          const rayDirection: Vector3 = rollMatrix.apply(pitchMatrix.apply(this.aimDirection));
-  
-          const ray = new Ray(this._scanOrigin, rayDirection);
-          const info: RaycastInfo | undefined = Game.instance.bvh.raycast(ray);
-    
-          if (info) Game.instance.canvas.createDot(info.position, info.normal);
+
+    const scanMode: ScanMode = this.scanMode;
+
+    if (Game.instance.controller.controlActive(Control.scan) && scanMode.ready && !this._overheated) {
+      this.makeNoise(this._scanOrigin, scanMode.noiseRange);
+
+      const rayCost: number = scanMode.getRayCost(this);
+      const burst: Vector3[] = scanMode.burst(this);
+      const directions: Vector3[] = burst.slice(0, Math.floor(this._energy / rayCost)); // Only fire the rays the remaining energy can pay for
+      const hitPositions: Vector3[] = [];
+
+      this.drainEnergy(directions.length * rayCost);
+
+      if (directions.length < burst.length) this._overheated = true; // Overheat once the energy can no longer pay for a full burst
+
+      for (const direction of directions) {
+        const ray = new Ray(this._scanOrigin, direction);
+        const info: SceneRaycastInfo | undefined = Game.instance.scene.raycast(ray, scanMode.range, [this]);
+
+        if (info) {
+          // Attach the dot to the entity hit, otherwise leave it on the level
+          if (info.entity) info.entity.reveal(info.position, info.normal);
+          else Game.instance.canvas.createDot(info.position, info.normal);
+
+          hitPositions.push(info.position);
         }
       }
 
+      this.scanned.fire(hitPositions);
+    }
+
+    this._scanning = scanMode.active; // Stay scanning while the last burst is still active
+
+    if (this._scanning) {
       if (!this.scanAudio) this.scanAudio = Game.instance.audioManager.get("scanning").emit(true);
 
     } else {
-      this._scanning = false;
-
       if (this.scanAudio) this.scanAudio.stop();
       delete this.scanAudio;
     }
@@ -0,0 +1,317 @@
+import { Game } from "../core/game.js";
+import { Matrix4 } from "../math/matrix4.js";
+import { Player } from "./player.js";
+import { Timer } from "../util/timer.js";
+import { Vector3 } from "../math/vector3.js";
+
+/** Represents a scan tool, which fires bursts of rays while the scan control is held. */
+export abstract class ScanMode {
+  /** The name shown on the HUD. */
+  public abstract readonly label: string;
+  /** The name of the value shown by the HUD's scan bar. */
+  public abstract readonly indicatorLabel: string;
+  /** Scales the scan aggression rate of monsters covered by the scan while it is active. */
+  public abstract readonly aggressionScale: number;
+  /** The distance the noise of each burst can be heard from. */
+  public abstract readonly noiseRange: number;
+  /** The maximum distance of the scan's rays. */
+  public readonly range: number = Infinity;
+
+  private burstTimer: Timer;
+  private activeTimer: Timer;
+  private lastBurstTime: number = -Infinity;
+
+  /**
+   * Creates the scan mode.
+   * @param interval The minimum time between bursts.
+   * @param activeTime How long each burst keeps the scan active, overlapping the next burst by default so held scans stay active.
+   */
+  constructor(private interval: number, activeTime: number = interval * 2) {
+    this.burstTimer = new Timer(interval);
+    this.activeTimer = new Timer(activeTime);
+  }
+
+  /** Returns whether or not the next burst can fire. */
+  public get ready(): boolean {
+    return !this.burstTimer.active;
+  }
+
+  /** Returns how far through the interval since the last burst the scan is, from 0 to 1. */
+  public get charge(): number {
+    return Math.min((Game.instance.elapsedTime - this.lastBurstTime) / this.interval, 1);
+  }
+
+  /** Returns whether or not a recent burst is still revealing the player. */
+  public get active(): boolean {
+    return this.activeTimer.active;
+  }
+
+  /**
+   * Fires a burst, starting the interval before the next one.
+   * @param player The scanning player.
+   * @returns The directions of the burst's rays.
+   */
+  public burst(player: Player): Vector3[] {
+    this.burstTimer.start();
+    this.activeTimer.start();
+    this.lastBurstTime = Game.instance.elapsedTime;
+
+    return this.getDirections(player);
+  }
+
+  /**
+   * Gets the scanner energy drained by each ray of the next burst.
+   * @param player The scanning player.
+   * @returns The energy per ray.
+   */
+  public abstract getRayCost(player: Player): number;
+
+  /**
+   * Gets the directions of a burst's rays.
+   * @param player The scanning player.
+   * @returns The ray directions.
+   */
+  protected abstract getDirections(player: Player): Vector3[];
+
+  /**
+   * Determines whether or not a position lies within the area the scan covers, ignoring anything in the way.
+   * @param player The scanning player.
+   * @param offset The offset of the position from the scan origin.
+   * @returns True if covered, false if otherwise.
+   */
+  public abstract covers(player: Player, offset: Vector3): boolean;
+
+  /**
+   * Gets the value shown by the HUD's scan bar.
+   * @param player The scanning player.
+   * @returns The value from 0 to 1.
+   */
+  public abstract getIndicatorValue(player: Player): number;
+}
+
+/** Fires random rays inside a cone around the aim direction, its angle set with the scroll wheel. */
+export class ConeScan extends ScanMode {
+  public readonly label: string = "Wide Cone";
+  public readonly indicatorLabel: string = "Scanning Range";
+  public readonly aggressionScale: number = 1;
+  public readonly noiseRange: number = 25;
+
+  private readonly DOTS_PER_SCAN: number = 120;
+  private readonly ENERGY_PER_RAY: number = 0.003;
+  /** The ray cost at the widest scan angle, as a scale of the cost at the narrowest. */
+  private readonly WIDE_COST_SCALE: number = 3;
+
+  constructor() {
+    super(0.05);
+  }
+
+  protected getDirections(player: Player): Vector3[] {
+    const directions: Vector3[] = [];
+
+    for (let i: number = 0; i < this.DOTS_PER_SCAN; i++) {
+      const roll: number = 2 * Math.PI * Game.instance.random.next();
+      const pitch: number = player.scanAngle * Game.instance.random.next();
+
+      const pitchMatrix = Matrix4.fromAxisAngle(player.aimDirection.perpendicular, pitch); // Get axis angle rotation matrix for pitching the direction
+      const rollMatrix = Matrix4.fromAxisAngle(player.aimDirection, roll); // Get the axis angle rotation around the direction vector
+
+      // Apply pitch matrix and roll matrix to direction to get random cone range effect
+      directions.push(rollMatrix.apply(pitchMatrix.apply(player.aimDirection)));
+    }
+
+    return directions;
+  }
+
+  /** Scales the ray cost with the scan angle, so wide scans drain the scanner faster. */
+  public getRayCost(player: Player): number {
+    return this.ENERGY_PER_RAY * (1 + (this.WIDE_COST_SCALE - 1) * this.getIndicatorValue(player));
+  }
+
+  public covers(player: Player, offset: Vector3): boolean {
+    return Math.acos(player.aimDirection.dot(offset.unit)) <= player.scanAngle;
+  }
+
+  public getIndicatorValue(player: Player): number {
+    return (player.scanAngle - player.MIN_SCAN_ANGLE) / (player.MAX_SCAN_ANGLE - player.MIN_SCAN_ANGLE);
+  }
+}
+
+/** Paints a line across the view that moves from edge to edge, alternating between horizontal and vertical passes. */
+export class SweepScan extends ScanMode {
+  public readonly label: string = "Line Sweep";
+  public readonly indicatorLabel: string = "Sweep";
+  public readonly aggressionScale: number = 0.6;
+  public readonly noiseRange: number = 20;
+  public readonly range: number = 80;
+
+  /** The view angles the line spans from the aim direction, horizontally and vertically. */
+  private readonly HALF_WIDTH: number = 35 * Math.PI / 180;
+  private readonly HALF_HEIGHT: number = 25 * Math.PI / 180;
+  /** The angular thickness of the line. */
+  private readonly LINE_WIDTH: number = 1.5 * Math.PI / 180;
+  private readonly PASS_TIME: number = 1.5;
+  private readonly DOTS_PER_SCAN: number = 60;
+  private readonly ENERGY_PER_RAY: number = 0.008;
+
+  constructor() {
+    super(0.05);
+  }
+
+  /** Returns the progress through the current pass, from 0 to 1, and whether or not the pass is vertical. */
+  private get pass(): [number, boolean] {
+    const passes: number = Game.instance.elapsedTime / this.PASS_TIME;
+
+    return [passes % 1, Math.floor(passes) % 2 === 1];
+  }
+
+  /**
+   * Gets the view angle of the line, moving left to right on vertical passes and top to bottom on horizontal passes.
+   * @param progress The progress through the pass.
+   * @param vertical Whether or not the pass is vertical.
+   * @returns The horizontal angle of a vertical line, or the vertical angle of a horizontal line.
+   */
+  private getLineAngle(progress: number, vertical: boolean): number {
+    return vertical ? (2 * progress - 1) * this.HALF_WIDTH : (1 - 2 * progress) * this.HALF_HEIGHT;
+  }
+
+  /**
+   * Gets the horizontal and vertical view angles of a direction from the camera's aim.
+   * @param direction The direction.
+   * @returns The horizontal and vertical angles.
+   */
+  private getViewAngles(direction: Vector3): [number, number] {
+    const local: Vector3 = Game.instance.camera.rotation.transpose().apply(direction);
+
+    return [Math.atan2(local.x, -local.z), Math.atan2(local.y, -local.z)];
+  }
+
+  protected getDirections(): Vector3[] {
+    const [progress, vertical]: [number, boolean] = this.pass;
+    const rotation: Matrix4 = Game.instance.camera.rotation;
+    const directions: Vector3[] = [];
+
+    const lineAngle: number = this.getLineAngle(progress, vertical);
+
+    for (let i: number = 0; i < this.DOTS_PER_SCAN; i++) {
+      // Spread the dots along the line, jittering them across its width
+      const along: number = 2 * Game.instance.random.next() - 1;
+      const across: number = lineAngle + (Game.instance.random.next() - 0.5) * this.LINE_WIDTH;
+
+      const x: number = vertical ? across : along * this.HALF_WIDTH;
+      const y: number = vertical ? along * this.HALF_HEIGHT : across;
+
+      directions.push(rotation.apply(new Vector3(Math.tan(x), Math.tan(y), -1)).unit);
+    }
+
+    return directions;
+  }
+
+  public getRayCost(): number {
+    return this.ENERGY_PER_RAY;
+  }
+
+  public covers(player: Player, offset: Vector3): boolean {
+    if (offset.magnitude > this.range) return false;
+
+    const [progress, vertical]: [number, boolean] = this.pass;
+    const [x, y]: [number, number] = this.getViewAngles(offset.unit);
+
+    if (Math.abs(x) > this.HALF_WIDTH || Math.abs(y) > this.HALF_HEIGHT) return false; // Outside the view
+
+    return Math.abs((vertical ? x : y) - this.getLineAngle(progress, vertical)) <= this.LINE_WIDTH;
+  }
+
+  public getIndicatorValue(): number {
+    return this.pass[0];
+  }
+}
+
+/** Sends a single sonar pulse in every direction around the player, with a long cooldown. */
+export class PulseScan extends ScanMode {
+  public readonly label: string = "Sonar Pulse";
+  public readonly indicatorLabel: string = "Pulse Charge";
+  public readonly aggressionScale: number = 4;
+  public readonly noiseRange: number = 60;
+  public readonly range: number = 60;
+
+  private readonly DOTS_PER_SCAN: number = 1500;
+  private readonly ENERGY_PER_RAY: number = 0.02;
+
+  /** Waits six seconds between pulses, each revealing the player for half a second. */
+  constructor() {
+    super(6, 0.5);
+  }
+
+  protected getDirections(): Vector3[] {
+    // Spread the rays evenly over a sphere using a golden angle spiral, with a random twist so repeated pulses land between each other
+    const goldenAngle: number = Math.PI * (3 - Math.sqrt(5));
+    const twist: number = 2 * Math.PI * Game.instance.random.next();
+    const directions: Vector3[] = [];
+
+    for (let i = 0; i < this.DOTS_PER_SCAN; i++) {
+      const y: number = 1 - 2 * (i + 0.5) / this.DOTS_PER_SCAN;
+      const ringRadius: number = Math.sqrt(1 - y * y);
+      const angle: number = goldenAngle * i + twist;
+
+      directions.push(new Vector3(Math.cos(angle) * ringRadius, y, Math.sin(angle) * ringRadius));
+    }
+
+    return directions;
+  }
+
+  public getRayCost(): number {
+    return this.ENERGY_PER_RAY;
+  }
+
+  public covers(player: Player, offset: Vector3): boolean {
+    return offset.magnitude <= this.range;
+  }
+
+  public getIndicatorValue(): number {
+    return this.charge;
+  }
+}
+
+/** Fires a dense, narrow beam of rays along the aim direction to reveal distant surfaces. */
+export class BeamScan extends ScanMode {
+  public readonly label: string = "Focused Beam";
+  public readonly indicatorLabel: string = "Beam Focus";
+  public readonly aggressionScale: number = 1.5;
+  public readonly noiseRange: number = 15;
+
+  private readonly BEAM_ANGLE: number = 1 * Math.PI / 180;
+  private readonly DOTS_PER_SCAN: number = 40;
+  private readonly ENERGY_PER_RAY: number = 0.01;
+
+  constructor() {
+    super(0.05);
+  }
+
+  protected getDirections(player: Player): Vector3[] {
+    const directions: Vector3[] = [];
+
+    for (let i: number = 0; i < this.DOTS_PER_SCAN; i++) {
+      const roll: number = 2 * Math.PI * Game.instance.random.next();
+      const pitch: number = this.BEAM_ANGLE * Math.sqrt(Game.instance.random.next()); // Spread evenly over the beam's area
+
+      const pitchMatrix = Matrix4.fromAxisAngle(player.aimDirection.perpendicular, pitch);
+      const rollMatrix = Matrix4.fromAxisAngle(player.aimDirection, roll);
+
+      directions.push(rollMatrix.apply(pitchMatrix.apply(player.aimDirection)));
+    }
+
+    return directions;
+  }
+
+  public getRayCost(): number {
+    return this.ENERGY_PER_RAY;
+  }
+
+  public covers(player: Player, offset: Vector3): boolean {
+    return Math.acos(player.aimDirection.dot(offset.unit)) <= this.BEAM_ANGLE * 3; // Count near misses of the narrow beam
+  }
+
+  public getIndicatorValue(): number {
+    return 1;
+  }
+}
@@ -1,61 +1,211 @@
+import { GameEvent } from "../util/gameevent.js";
+import { Binding, InputSettings } from "./inputsettings.js";
+import { GamepadSource } from "./gamepadsource.js";
+
+/** The actions the user can bind inputs to. */
 export enum Control {
-  moveF = "w",
-  moveL = "a",
-  moveR = "d",
-  moveB = "s",
-  jump = " ",
-  sprint = "shift",
-  scan = "mouseclick"
+  moveF = "moveF",
+  moveL = "moveL",
+  moveR = "moveR",
+  moveB = "moveB",
+  jump = "jump",
+  sprint = "sprint",
+  scan = "scan",
+  switchScan = "switchScan"
+}
+
+/** Every control, in the order of their bits in an input frame's control mask. */
+export const CONTROLS: Control[] = [
+  Control.moveF,
+  Control.moveL,
+  Control.moveR,
+  Control.moveB,
+  Control.jump,
+  Control.sprint,
+  Control.scan,
+  Control.switchScan
+];
+
+/** Represents the input state of a single simulation step. */
+export interface InputFrame {
+  /** The bitmask of active controls, ordered by CONTROLS. */
+  controls: number,
+  aimX: number,
+  aimY: number,
+  scroll: number
 }
 
-/** Handles user input and controls. */
-export class Controller {
+/** Handles the input state read by the simulation, sampling a new input frame every step. */
+export abstract class Controller {
+  private _frame: InputFrame = { controls: 0, aimX: 0, aimY: 0, scroll: 0 };
+
+  /**
+   * Reads the input state for the next step.
+   * @returns The input frame.
+   */
+  protected abstract readFrame(): InputFrame;
+
+  /** Samples the input frame used by the current step. */
+  public step(): void {
+    this._frame = this.readFrame();
+  }
+
+  /** Returns the input frame of the current step. */
+  public get frame(): InputFrame {
+    return this._frame;
+  }
+
+  /** Returns the x and y aim delta of the current step. */
+  public get aimMovement(): [number, number] {
+    return [this._frame.aimX, this._frame.aimY];
+  }
+
+  /** Returns the scroll movement of the current step. */
+  public get scrollMovement(): number {
+    return this._frame.scroll;
+  }
+
+  /**
+   * Determines whether or not a specified control is held down during the current step.
+   * @param control The specified control.
+   * @returns True if being held down, false if otherwise.
+   */
+  public controlActive(control: Control): boolean {
+    return (this._frame.controls & 1 << CONTROLS.indexOf(control)) !== 0;
+  }
+
+  /** Lock and hide the mouse, if the controller uses it. */
+  public lockMouse(): void {}
+
+  /** Unlock and show the mouse, if the controller uses it. */
+  public unlockMouse(): void {}
+}
+
+/** Represents a device the user controls the game with, read once every step. */
+export interface InputSource {
+  /**
+   * Reads the input state since the last read.
+   * @returns The input frame.
+   */
+  read(): InputFrame;
+
+  /** Discards any held or accumulated input. */
+  clear(): void;
+}
+
+/** Handles keyboard and mouse input from DOM events. */
+export class KeyboardMouseSource implements InputSource {
+  /** The base sensitivities, scaled by the user's settings. */
   private readonly MOUSE_SENSITIVITY: number = 1 / 200;
   private readonly SCROLL_SENSITIVITY: number = Math.PI / 180 / 50;
 
-  private mouseLocked: boolean = false;
-  private alreadyAwaiting: boolean = false;
-  private lockWaitPromise?: Promise<void>;
-
   private xMovement: number = 0;
   private yMovement: number = 0;
-  private _scrollMovement: number = 0;
+  private scrollMovement: number = 0;
 
-  /** A map of currently held down controls. */
-  private activeControls: Map<Control, boolean> = new Map();
+  /** The currently held down keys and mouse buttons. */
+  private heldBindings: Set<Binding> = new Set();
 
-  constructor() {
+  /**
+   * Creates the source and listens to keyboard and mouse events.
+   * @param settings The bindings and aim settings.
+   */
+  constructor(private settings: InputSettings) {
     document.addEventListener("mousemove", (event: MouseEvent) => {
       this.xMovement += event.movementX;
       this.yMovement -= event.movementY;
     });
 
     document.addEventListener("wheel", (event: WheelEvent) => {
-      this._scrollMovement = event.deltaY;
+      this.scrollMovement = event.deltaY;
     });
 
     document.addEventListener("mousedown", (event: MouseEvent) => {
-      this.activeControls.set("mouseclick" as Control, true);
-
-      if (this.mouseLocked && !document.pointerLockElement) {
-        this.handleMouseLockRequest();
-      }
+      this.heldBindings.add(InputSettings.mouseBinding(event.button));
     });
 
     document.addEventListener("mouseup", (event: MouseEvent) => {
-      this.activeControls.set("mouseclick" as Control, false);
+      this.heldBindings.delete(InputSettings.mouseBinding(event.button));
     });
 
+    // Use key codes so that bindings follow physical key positions regardless of layout or modifiers
     document.addEventListener("keydown", (event: KeyboardEvent) => {
-      this.activeControls.set(event.key.toLowerCase() as Control, true);
+      this.heldBindings.add(event.code);
     });
 
     document.addEventListener("keyup", (event: KeyboardEvent) => {
-      this.activeControls.set(event.key.toLowerCase() as Control, false);
+      this.heldBindings.delete(event.code);
+    });
+  }
+
+  /**
+   * Reads the held down controls and the mouse and scroll movement since the last read.
+   * @returns The input frame.
+   */
+  public read(): InputFrame {
+    const mouseSensitivity: number = this.MOUSE_SENSITIVITY * this.settings.mouseSensitivity;
+
+    const frame: InputFrame = {
+      controls: this.settings.getControlMask(this.heldBindings),
+      aimX: -this.xMovement * mouseSensitivity,
+      aimY: this.yMovement * mouseSensitivity * (this.settings.invertY ? -1 : 1),
+      scroll: this.scrollMovement * this.SCROLL_SENSITIVITY * this.settings.scrollSensitivity
+    };
+
+    // Reset movement for next read
+    this.xMovement = 0;
+    this.yMovement = 0;
+    this.scrollMovement = 0;
+
+    return frame;
+  }
+
+  /** Discards the held inputs and the accumulated mouse and scroll movement. */
+  public clear(): void {
+    this.xMovement = 0;
+    this.yMovement = 0;
+    this.scrollMovement = 0;
+    this.heldBindings.clear();
+  }
+}
+
+/** Handles user input from every input source and locking the mouse. */
+export class UserController extends Controller {
+  /** Fired when the pointer lock is lost while the mouse is meant to be locked. */
+  public readonly pointerLockLost: GameEvent = new GameEvent();
+
+  public readonly gamepad: GamepadSource;
+
+  private readonly sources: InputSource[];
+
+  private mouseLocked: boolean = false;
+  private alreadyAwaiting: boolean = false;
+  private lockWaitPromise?: Promise<void>;
+
+  /**
+   * Creates the controller and its keyboard, mouse and gamepad input sources.
+   * @param settings The bindings and aim settings.
+   */
+  constructor(settings: InputSettings) {
+    super();
+
+    this.gamepad = new GamepadSource(settings);
+    this.sources = [new KeyboardMouseSource(settings), this.gamepad];
+
+    // Detect gamepads being plugged in and out even while no run is reading input
+    window.addEventListener("gamepadconnected", () => this.gamepad.poll());
+    window.addEventListener("gamepaddisconnected", () => this.gamepad.poll());
+
+    document.addEventListener("mousedown", () => {
+      if (this.mouseLocked && !document.pointerLockElement) {
+        this.handleMouseLockRequest();
+      }
     });
 
     document.addEventListener("pointerlockchange", () => {
       if (!document.pointerLockElement) {
+        if (this.mouseLocked) this.pointerLockLost.fire();
+
         // Create promise to prevent pointer lock during cooldown
         this.lockWaitPromise = new Promise((resolve) => {
           setTimeout(() => {
@@ -83,40 +233,31 @@ export class Controller {
     }
   }
 
-  /** Returns the x and y aim delta based on the user's mouse movement since the last call. */
-  public get aimMovement(): [number, number] {
-    const totalX: number = this.xMovement;
-    const totalY: number = this.yMovement;
-
-    // Reset movement for next frame
-    this.xMovement = 0;
-    this.yMovement = 0;
-
-    return [-totalX * this.MOUSE_SENSITIVITY, totalY * this.MOUSE_SENSITIVITY];
-  }
+  /**
+   * Reads and combines the input of every source.
+   * @returns The input frame.
+   */
+  protected readFrame(): InputFrame {
+    const frame: InputFrame = { controls: 0, aimX: 0, aimY: 0, scroll: 0 };
 
-  /** Returns the user's mouse scroll movement since the last call. */
-  public get scrollMovement(): number {
-    const movement: number = this._scrollMovement;
+    for (const source of this.sources) {
+      const sourceFrame: InputFrame = source.read();
 
-    this._scrollMovement = 0; // Reset movement for next frame
-    
-    return movement * this.SCROLL_SENSITIVITY;
-  }
+      frame.controls |= sourceFrame.controls;
+      frame.aimX += sourceFrame.aimX;
+      frame.aimY += sourceFrame.aimY;
+      frame.scroll += sourceFrame.scroll;
+    }
 
-  /**
-   * Determines whether or not a specified control is currently held down.
-   * @param control The specified control.
-   * @returns True if being held down, false if otherwise.
-   */
-  public controlActive(control: Control): boolean {
-    return this.activeControls.get(control) === true;
+    return frame;
   }
 
-  /** Lock and hide the mouse. */
+  /** Lock and hide the mouse, discarding any input made while it was unlocked. */
   public lockMouse(): void {
     this.mouseLocked = true;
 
+    for (const source of this.sources) source.clear();
+
     this.handleMouseLockRequest();
   }
 
@@ -126,4 +267,4 @@ export class Controller {
 
     document.exitPointerLock();
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,145 @@
+import { Control, CONTROLS, InputFrame, InputSource } from "./controller.js";
+import { Binding, InputSettings } from "./inputsettings.js";
+import { GameEvent } from "../util/gameevent.js";
+
+/** Handles input from the first connected gamepad with the standard mapping, polled every read. */
+export class GamepadSource implements InputSource {
+  /** The aim rotation per step of a fully deflected right stick. */
+  private readonly AIM_SPEED: number = 0.05;
+  /** The scan angle change per step while a bumper is held. */
+  private readonly SCAN_ANGLE_SPEED: number = Math.PI / 180 / 2;
+  /** The left stick deflection past which movement controls become active. */
+  private readonly MOVE_THRESHOLD: number = 0.5;
+  /** The analog value past which a button such as a trigger counts as held. */
+  private readonly PRESS_THRESHOLD: number = 0.5;
+
+  private readonly NARROW_SCAN_BUTTON: number = 4;
+  private readonly WIDEN_SCAN_BUTTON: number = 5;
+
+  /** Fired with the gamepad whenever one is connected and starts being used. */
+  public readonly connected: GameEvent = new GameEvent();
+  /** Fired whenever the gamepad being used is disconnected. */
+  public readonly disconnected: GameEvent = new GameEvent();
+
+  private gamepadIndex?: number;
+
+  /**
+   * Creates the source.
+   * @param settings The bindings and stick settings.
+   * @param getGamepads Returns the currently connected gamepads, replaceable with fake gamepads for testing.
+   */
+  constructor(
+    private settings: InputSettings,
+    private getGamepads: () => readonly (Gamepad | null)[] = () => navigator.getGamepads()
+  ) {}
+
+  /** Returns the gamepad being used, if one is connected. */
+  public get gamepad(): Gamepad | undefined {
+    if (this.gamepadIndex === undefined) return;
+
+    const gamepad: Gamepad | null = this.getGamepads()[this.gamepadIndex];
+
+    return gamepad && gamepad.connected ? gamepad : undefined;
+  }
+
+  /**
+   * Finds the gamepad to use, switching to the first connected one if the current one was unplugged.
+   * @returns The gamepad, if one is connected.
+   */
+  public poll(): Gamepad | undefined {
+    const current: Gamepad | undefined = this.gamepad;
+    if (current) return current;
+
+    if (this.gamepadIndex !== undefined) {
+      delete this.gamepadIndex;
+      this.disconnected.fire();
+    }
+
+    for (const gamepad of this.getGamepads()) {
+      if (!gamepad || !gamepad.connected) continue;
+
+      this.gamepadIndex = gamepad.index;
+      this.connected.fire(gamepad);
+
+      return gamepad;
+    }
+  }
+
+  /**
+   * Applies the dead zone and response curve to a stick's deflection.
+   * @param x The horizontal axis value.
+   * @param y The vertical axis value.
+   * @returns The adjusted horizontal and vertical values.
+   */
+  public shapeStick(x: number, y: number): [number, number] {
+    const magnitude: number = Math.min(Math.sqrt(x * x + y * y), 1);
+    const deadZone: number = this.settings.deadZone;
+
+    if (magnitude <= deadZone) return [0, 0];
+
+    // Rescale the deflection outside the dead zone to start from 0 and apply the curve
+    const shaped: number = ((magnitude - deadZone) / (1 - deadZone)) ** this.settings.stickCurve;
+    const scale: number = shaped / Math.sqrt(x * x + y * y);
+
+    return [x * scale, y * scale];
+  }
+
+  /**
+   * Determines whether or not a gamepad button is held down.
+   * @param gamepad The gamepad.
+   * @param index The button index.
+   * @returns True if held, false if otherwise.
+   */
+  private isPressed(gamepad: Gamepad, index: number): boolean {
+    const button: GamepadButton | undefined = gamepad.buttons[index];
+
+    return button !== undefined && (button.pressed || button.value > this.PRESS_THRESHOLD);
+  }
+
+  /**
+   * Reads the held buttons, left stick movement, right stick aim and bumper scan angle changes.
+   * @returns The input frame, empty if no gamepad is connected.
+   */
+  public read(): InputFrame {
+    const frame: InputFrame = { controls: 0, aimX: 0, aimY: 0, scroll: 0 };
+
+    const gamepad: Gamepad | undefined = this.poll();
+    if (!gamepad) return frame;
+
+    const held: Set<Binding> = new Set();
+
+    for (let i = 0; i < gamepad.buttons.length; i++) {
+      if (this.isPressed(gamepad, i)) held.add(InputSettings.gamepadBinding(i));
+    }
+
+    frame.controls = this.settings.getControlMask(held);
+
+    // Move with the left stick
+    const [moveX, moveY]: [number, number] = this.shapeStick(gamepad.axes[0] || 0, gamepad.axes[1] || 0);
+
+    if (moveY < -this.MOVE_THRESHOLD) frame.controls |= 1 << CONTROLS.indexOf(Control.moveF);
+    if (moveY > this.MOVE_THRESHOLD) frame.controls |= 1 << CONTROLS.indexOf(Control.moveB);
+    if (moveX < -this.MOVE_THRESHOLD) frame.controls |= 1 << CONTROLS.indexOf(Control.moveL);
+    if (moveX > this.MOVE_THRESHOLD) frame.controls |= 1 << CONTROLS.indexOf(Control.moveR);
+
+    // Aim with the right stick, where pushing up gives a negative axis value
+    const [aimX, aimY]: [number, number] = this.shapeStick(gamepad.axes[2] || 0, gamepad.axes[3] || 0);
+    const aimSpeed: number = this.AIM_SPEED * this.settings.gamepadSensitivity;
+
+    frame.aimX = -aimX * aimSpeed;
+    frame.aimY = -aimY * aimSpeed * (this.settings.invertY ? -1 : 1);
+
+    // Narrow and widen the scan angle with the bumpers
+    let scanDirection: number = 0;
+
+    if (this.isPressed(gamepad, this.NARROW_SCAN_BUTTON)) scanDirection--;
+    if (this.isPressed(gamepad, this.WIDEN_SCAN_BUTTON)) scanDirection++;
+
+    frame.scroll = scanDirection * this.SCAN_ANGLE_SPEED * this.settings.scrollSensitivity;
+
+    return frame;
+  }
+
+  /** Discards held input, which is not needed since the gamepad is polled rather than accumulated. */
+  public clear(): void {}
+}
@@ -0,0 +1,246 @@
+import { Control, CONTROLS } from "./controller.js";
+import { Util } from "../util/util.js";
+
+/** A physical input, either a keyboard event code such as "KeyW", a mouse button such as "Mouse0" or a gamepad button such as "Pad0". */
+export type Binding = string;
+
+/** Defines the persisted input settings. */
+interface InputSettingsData {
+  bindings: Record<Control, Binding[]>,
+  mouseSensitivity: number,
+  scrollSensitivity: number,
+  invertY: boolean,
+  gamepadSensitivity: number,
+  /** The stick deflection below which input is ignored, from 0 to 1. */
+  deadZone: number,
+  /** The exponent applied to stick deflection, where higher values give finer control near the center. */
+  stickCurve: number
+}
+
+/** Manages the control bindings and aim settings, persisting them to local storage. */
+export class InputSettings {
+  private readonly STORAGE_KEY: string = "fleeting-glimpse.input";
+
+  /** The maximum number of bindings per control. */
+  public readonly MAX_BINDINGS: number = 3;
+  public readonly MIN_SENSITIVITY: number = 0.1;
+  public readonly MAX_SENSITIVITY: number = 3;
+  public readonly MAX_DEAD_ZONE: number = 0.5;
+  public readonly MIN_STICK_CURVE: number = 1;
+  public readonly MAX_STICK_CURVE: number = 3;
+
+  private readonly DEFAULTS: InputSettingsData = {
+    bindings: {
+      [Control.moveF]: ["KeyW", "ArrowUp", "Pad12"],
+      [Control.moveL]: ["KeyA", "ArrowLeft", "Pad14"],
+      [Control.moveR]: ["KeyD", "ArrowRight", "Pad15"],
+      [Control.moveB]: ["KeyS", "ArrowDown", "Pad13"],
+      [Control.jump]: ["Space", "Pad0"],
+      [Control.sprint]: ["ShiftLeft", "ShiftRight", "Pad6"],
+      [Control.scan]: ["Mouse0", "Pad7"],
+      [Control.switchScan]: ["KeyQ", "Pad3"]
+    },
+    mouseSensitivity: 1,
+    scrollSensitivity: 1,
+    invertY: false,
+    gamepadSensitivity: 1,
+    deadZone: 0.15,
+    stickCurve: 2
+  };
+
+  private data: InputSettingsData = this.copyDefaults();
+
+  /**
+   * Creates a mouse button binding.
+   * @param button The mouse event button index.
+   * @returns The binding.
+   */
+  public static mouseBinding(button: number): Binding {
+    return `Mouse${button}`;
+  }
+
+  /**
+   * Creates a gamepad button binding.
+   * @param button The standard gamepad button index.
+   * @returns The binding.
+   */
+  public static gamepadBinding(button: number): Binding {
+    return `Pad${button}`;
+  }
+
+  /**
+   * Creates a readable name for a binding.
+   * @param binding The binding.
+   * @returns The readable name.
+   */
+  public static describe(binding: Binding): string {
+    const mouseNames: string[] = ["Left Mouse", "Middle Mouse", "Right Mouse", "Mouse 4", "Mouse 5"];
+    const padNames: string[] = [
+      "A", "B", "X", "Y", "LB", "RB", "LT", "RT", "Back", "Start", "LS", "RS", "D-Up", "D-Down", "D-Left", "D-Right", "Home"
+    ];
+
+    if (binding.startsWith("Mouse")) return mouseNames[Number(binding.slice(5))] || binding;
+    if (binding.startsWith("Pad")) return `Pad ${padNames[Number(binding.slice(3))] || binding.slice(3)}`;
+    if (binding.startsWith("Key")) return binding.slice(3);
+    if (binding.startsWith("Digit")) return binding.slice(5);
+
+    // Split modifiers such as "ShiftLeft" into "Left Shift"
+    const side: RegExpMatchArray | null = binding.match(/^(.+)(Left|Right)$/);
+    if (side) return `${side[2]} ${side[1]}`;
+
+    return binding;
+  }
+
+  /** Loads the saved settings, falling back on the defaults for anything missing or invalid. */
+  public load(): void {
+    const saved: string | null = localStorage.getItem(this.STORAGE_KEY);
+    this.data = this.copyDefaults();
+
+    if (!saved) return;
+
+    try {
+      const parsed: Partial<InputSettingsData> = JSON.parse(saved);
+
+      for (const control of CONTROLS) {
+        const bindings: Binding[] | undefined = parsed.bindings ? parsed.bindings[control] : undefined;
+        if (Array.isArray(bindings)) this.data.bindings[control] = bindings.slice(0, this.MAX_BINDINGS);
+      }
+
+      if (typeof parsed.mouseSensitivity === "number") this.mouseSensitivity = parsed.mouseSensitivity;
+      if (typeof parsed.scrollSensitivity === "number") this.scrollSensitivity = parsed.scrollSensitivity;
+      if (typeof parsed.invertY === "boolean") this.data.invertY = parsed.invertY;
+      if (typeof parsed.gamepadSensitivity === "number") this.gamepadSensitivity = parsed.gamepadSensitivity;
+      if (typeof parsed.deadZone === "number") this.deadZone = parsed.deadZone;
+      if (typeof parsed.stickCurve === "number") this.stickCurve = parsed.stickCurve;
+
+    } catch {
+      console.warn("Failed to load input settings, using defaults.");
+    }
+  }
+
+  /** Saves the settings to local storage. */
+  public save(): void {
+    localStorage.setItem(this.STORAGE_KEY, JSON.stringify(this.data));
+  }
+
+  /** Restores and saves the default settings. */
+  public reset(): void {
+    this.data = this.copyDefaults();
+    this.save();
+  }
+
+  /**
+   * Creates a deep copy of the default settings.
+   * @returns The copied settings.
+   */
+  private copyDefaults(): InputSettingsData {
+    return JSON.parse(JSON.stringify(this.DEFAULTS));
+  }
+
+  /**
+   * Gets the bindings of a control.
+   * @param control The control.
+   * @returns The bindings.
+   */
+  public getBindings(control: Control): readonly Binding[] {
+    return this.data.bindings[control];
+  }
+
+  /**
+   * Binds an input to a slot of a control, removing it from any other control first.
+   * @param control The control.
+   * @param slot The binding slot, up to MAX_BINDINGS.
+   * @param binding The binding, or undefined to clear the slot.
+   */
+  public setBinding(control: Control, slot: number, binding?: Binding): void {
+    if (binding) {
+      for (const other of CONTROLS) {
+        this.data.bindings[other] = this.data.bindings[other].filter((existing: Binding) => existing !== binding);
+      }
+    }
+
+    const bindings: Binding[] = this.data.bindings[control];
+
+    if (binding) bindings.splice(Math.min(slot, bindings.length), 1, binding);
+    else bindings.splice(slot, 1);
+
+    this.save();
+  }
+
+  /**
+   * Determines whether or not a control is bound to any of the held inputs.
+   * @param control The control.
+   * @param held The held bindings.
+   * @returns True if active, false if otherwise.
+   */
+  public isActive(control: Control, held: ReadonlySet<Binding>): boolean {
+    return this.data.bindings[control].some((binding: Binding) => held.has(binding));
+  }
+
+  /**
+   * Creates the control mask of an input frame from the held inputs.
+   * @param held The held bindings.
+   * @returns The bitmask of active controls, ordered by CONTROLS.
+   */
+  public getControlMask(held: ReadonlySet<Binding>): number {
+    let controls: number = 0;
+
+    for (let i = 0; i < CONTROLS.length; i++) {
+      if (this.isActive(CONTROLS[i], held)) controls |= 1 << i;
+    }
+
+    return controls;
+  }
+
+  /** The multiplier applied to mouse aim movement. */
+  public get mouseSensitivity(): number {
+    return this.data.mouseSensitivity;
+  }
+
+  public set mouseSensitivity(value: number) {
+    this.data.mouseSensitivity = Util.clamp(value, this.MIN_SENSITIVITY, this.MAX_SENSITIVITY);
+  }
+
+  /** The multiplier applied to scroll movement. */
+  public get scrollSensitivity(): number {
+    return this.data.scrollSensitivity;
+  }
+
+  public set scrollSensitivity(value: number) {
+    this.data.scrollSensitivity = Util.clamp(value, this.MIN_SENSITIVITY, this.MAX_SENSITIVITY);
+  }
+
+  /** Whether or not vertical aim movement is inverted. */
+  public get invertY(): boolean {
+    return this.data.invertY;
+  }
+
+  public set invertY(value: boolean) {
+    this.data.invertY = value;
+  }
+
+  /** The multiplier applied to gamepad stick aim. */
+  public get gamepadSensitivity(): number {
+    return this.data.gamepadSensitivity;
+  }
+
+  public set gamepadSensitivity(value: number) {
+    this.data.gamepadSensitivity = Util.clamp(value, this.MIN_SENSITIVITY, this.MAX_SENSITIVITY);
+  }
+
+  public get deadZone(): number {
+    return this.data.deadZone;
+  }
+
+  public set deadZone(value: number) {
+    this.data.deadZone = Util.clamp(value, 0, this.MAX_DEAD_ZONE);
+  }
+
+  public get stickCurve(): number {
+    return this.data.stickCurve;
+  }
+
+  public set stickCurve(value: number) {
+    this.data.stickCurve = Util.clamp(value, this.MIN_STICK_CURVE, this.MAX_STICK_CURVE);
+  }
+}
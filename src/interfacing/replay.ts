@@ -0,0 +1,118 @@
+import { Controller, InputFrame } from "./controller.js";
+
+/** A run of identical consecutive input frames: [step count, control mask, aim x, aim y, scroll]. */
+type FrameRun = [number, number, number, number, number];
+
+/** Defines a recorded run, saved as a json replay file. */
+export interface Replay {
+  version: number,
+  level: string,
+  seed: number,
+  frames: FrameRun[]
+}
+
+/** Records the input frame of every step of a run into a compact replay. */
+export class InputRecorder {
+  private readonly VERSION: number = 1;
+
+  private level: string;
+  private seed: number;
+  private frames: FrameRun[] = [];
+
+  /**
+   * Clears any previous recording and starts recording a new run.
+   * @param level The id of the level being played.
+   * @param seed The seed of the run.
+   */
+  public start(level: string, seed: number): void {
+    this.level = level;
+    this.seed = seed;
+    this.frames = [];
+  }
+
+  /**
+   * Records the input frame of a step, extending the last run of frames if it is identical.
+   * @param frame The input frame.
+   */
+  public record(frame: InputFrame): void {
+    const last: FrameRun | undefined = this.frames[this.frames.length - 1];
+
+    if (last && last[1] === frame.controls && last[2] === frame.aimX && last[3] === frame.aimY && last[4] === frame.scroll) {
+      last[0]++;
+
+    } else {
+      this.frames.push([1, frame.controls, frame.aimX, frame.aimY, frame.scroll]);
+    }
+  }
+
+  /** Returns the replay of the recorded run. */
+  public get replay(): Replay {
+    return {
+      version: this.VERSION,
+      level: this.level,
+      seed: this.seed,
+      frames: this.frames.map((run: FrameRun) => [...run] as FrameRun)
+    };
+  }
+
+  /**
+   * Checks that parsed json is a replay this version can play.
+   * @param data The parsed replay json.
+   * @returns The replay.
+   */
+  public static parse(data: Replay): Replay {
+    if (data.version !== 1 || !Array.isArray(data.frames)) throw new Error("Unsupported replay file.");
+
+    return data;
+  }
+
+  /** Saves the replay of the recorded run as a json file download. */
+  public download(): void {
+    const blob: Blob = new Blob([JSON.stringify(this.replay)], { type: "application/json" });
+    const url: string = URL.createObjectURL(blob);
+    const link: HTMLAnchorElement = document.createElement("a");
+
+    link.href = url;
+    link.download = `replay-${this.level}-${this.seed}.json`;
+    link.click();
+
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Feeds the recorded input frames of a replay back into the simulation, one per step. */
+export class PlaybackController extends Controller {
+  private runIndex: number = 0;
+  private runStep: number = 0;
+
+  /**
+   * Creates a controller playing back a replay.
+   * @param replay The replay.
+   */
+  constructor(private replay: Replay) {
+    super();
+  }
+
+  /** Returns whether or not every recorded step has been played back. */
+  public get finished(): boolean {
+    return this.runIndex >= this.replay.frames.length;
+  }
+
+  /**
+   * Reads the next recorded input frame, or no input once the replay has finished.
+   * @returns The input frame.
+   */
+  protected readFrame(): InputFrame {
+    if (this.finished) return { controls: 0, aimX: 0, aimY: 0, scroll: 0 };
+
+    const [count, controls, aimX, aimY, scroll]: FrameRun = this.replay.frames[this.runIndex];
+
+    // Move onto the next run once every step of this one has been played
+    if (++this.runStep >= count) {
+      this.runIndex++;
+      this.runStep = 0;
+    }
+
+    return { controls, aimX, aimY, scroll };
+  }
+}
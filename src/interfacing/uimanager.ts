@@ -1,15 +1,37 @@
 import { AudioEmission } from "../audio/audiomanager.js";
-import { Monster } from "../entity/monster.js";
 import { Player } from "../entity/player.js";
-import { Game } from "../core/game.js";
+import { Game, Outcome } from "../core/game.js";
+import { InputRecorder, Replay } from "./replay.js";
+import { Control, CONTROLS } from "./controller.js";
+import { Binding, InputSettings } from "./inputsettings.js";
+import { GamepadSource } from "./gamepadsource.js";
+import { EventConnection } from "../util/gameevent.js";
+import { LoadTracker } from "../util/loadtracker.js";
+import { BooleanSetting, NumberSetting, Settings } from "../core/settings.js";
+
+/** The options offered by the pause menu. */
+export type PauseChoice = "resume" | "restart" | "quit";
+
+/** Defines what the user chose on the menu before starting a run. */
+export interface MenuSelection {
+  seedText: string,
+  /** The replay to play back instead of a live run, if one was loaded. */
+  replay?: Replay
+}
 
 /** Handles all UI methods. */
 export class UIManager {
   private readonly LOAD_TEMPLATE: HTMLTemplateElement = document.getElementById("loading-screen-template") as HTMLTemplateElement;
   private readonly MENU_TEMPLATE: HTMLTemplateElement = document.getElementById("main-menu-template") as HTMLTemplateElement;
   private readonly END_TEMPLATE: HTMLTemplateElement = document.getElementById("end-screen-template") as HTMLTemplateElement;
+  private readonly VICTORY_TEMPLATE: HTMLTemplateElement = document.getElementById("victory-screen-template") as HTMLTemplateElement;
+  private readonly PAUSE_TEMPLATE: HTMLTemplateElement = document.getElementById("pause-menu-template") as HTMLTemplateElement;
+  private readonly SETTINGS_TEMPLATE: HTMLTemplateElement = document.getElementById("settings-screen-template") as HTMLTemplateElement;
   private readonly GAME_INFO: HTMLDivElement = document.getElementById("game-info") as HTMLDivElement;
 
+  /** The seed entered the last time the menu was played from, kept when returning to the menu. */
+  private lastSeedText?: string;
+
   /**
    * Creates a promise that resolves after the user clicks anywhere on the page.
    * @returns The created promise.
@@ -77,31 +99,70 @@ export class UIManager {
   }
 
   /**
-   * Handles the loading screen while awaiting a loading promise.
-   * @param loadPromise The loading promise.
+   * Shows shader errors in an overlay over the game, or hides the overlay.
+   * @param errorText The error messages, or undefined to hide the overlay.
+   */
+  public showShaderErrors(errorText?: string): void {
+    const overlay: HTMLPreElement = document.getElementById("shader-error-overlay") as HTMLPreElement;
+
+    overlay.textContent = errorText || "";
+    overlay.classList.toggle("hidden", !errorText);
+  }
+
+  /**
+   * Handles the loading screen, showing the loading progress and an error panel with a retry button if loading fails.
+   * @param load The function starting a loading attempt.
    */
-  public async handleLoadingScreen(loadPromise: Promise<void[]>): Promise<void> {
+  public async handleLoadingScreen(load: () => Promise<void>): Promise<void> {
     const content: DocumentFragment = this.LOAD_TEMPLATE.content.cloneNode(true) as DocumentFragment;
     const screen: HTMLDivElement = content.querySelector("#loading-screen") as HTMLDivElement;
+    const status: HTMLDivElement = screen.querySelector("#loading-status") as HTMLDivElement;
     const text: HTMLSpanElement = screen.querySelector("#loading-text") as HTMLSpanElement;
+    const progressBar: HTMLProgressElement = screen.querySelector("#loading-progress") as HTMLProgressElement;
+    const detail: HTMLSpanElement = screen.querySelector("#loading-detail") as HTMLSpanElement;
+    const errorPanel: HTMLDivElement = screen.querySelector("#loading-error") as HTMLDivElement;
+    const errorText: HTMLSpanElement = screen.querySelector("#loading-error-text") as HTMLSpanElement;
+    const retryButton: HTMLButtonElement = screen.querySelector("#loading-retry-button") as HTMLButtonElement;
+
+    const tracker: LoadTracker = Game.instance.loadTracker;
 
     document.body.appendChild(screen);
 
-    let count: number = 0;
+    // Show the items loaded and bytes downloaded so far
+    const progressConnection: EventConnection = tracker.progressed.connect(() => {
+      const megabytes: string = (tracker.loadedBytes / 1024 / 1024).toFixed(1);
 
-    const handleLoadLoop: () => void = () => {
-      text.innerText = "Loading" + ".".repeat(count);
+      progressBar.value = tracker.progress;
+      detail.innerText = `${tracker.completedItems}/${tracker.totalItems} assets (${megabytes} MB)`;
+    });
 
-      count = (count + 1) % 4;
-    }
+    while (true) {
+      status.classList.remove("hidden");
+      errorPanel.classList.add("hidden");
+
+      text.innerText = "Loading...";
+      progressBar.value = 0;
+      detail.innerText = "";
 
-    const interval: ReturnType<typeof setInterval> = setInterval(handleLoadLoop, 200);
-    handleLoadLoop();
+      try {
+        await tracker.run(load);
+        break;
 
-    await loadPromise;
+      } catch (error) {
+        console.error(error);
 
-    clearInterval(interval);
+        // Show the error and wait for the user to retry
+        status.classList.add("hidden");
+        errorPanel.classList.remove("hidden");
+        errorText.innerText = error instanceof Error ? error.message : String(error);
+
+        await new Promise((resolve) => retryButton.addEventListener("click", resolve, {once: true}));
+      }
+    }
 
+    progressConnection.disconnect();
+
+    progressBar.value = 1;
     text.innerText = "Click anywhere to begin.";
 
     await this.awaitUserClick();
@@ -111,13 +172,38 @@ export class UIManager {
   }
 
   /**
-   * Prompts the menu screen.
-   * @returns A promise which resolves once the user clicks the play button.
+   * Prompts the menu screen, prefilling the seed input with the last entered seed, or from the url query on first show.
+   * @returns A promise which resolves with the entered seed and any loaded replay once the user clicks the play button.
    */
-  public async menuPrompt(): Promise<void> {
+  public async menuPrompt(): Promise<MenuSelection> {
     const menuContent: DocumentFragment = this.MENU_TEMPLATE.content.cloneNode(true) as DocumentFragment;
     const menu: HTMLDivElement = menuContent.querySelector("#main-menu") as HTMLDivElement;
     const button: HTMLButtonElement = menu.querySelector("#play-button") as HTMLButtonElement;
+    const seedInput: HTMLInputElement = menu.querySelector("#seed-input") as HTMLInputElement;
+    const replayInput: HTMLInputElement = menu.querySelector("#replay-input") as HTMLInputElement;
+    const replayText: HTMLSpanElement = menu.querySelector("#replay-text") as HTMLSpanElement;
+    const settingsButton: HTMLButtonElement = menu.querySelector("#settings-button") as HTMLButtonElement;
+
+    settingsButton.addEventListener("click", () => this.settingsPrompt());
+
+    let replay: Replay | undefined;
+
+    seedInput.value = this.lastSeedText !== undefined ? this.lastSeedText : new URLSearchParams(window.location.search).get("seed") || "";
+
+    // Load the chosen replay file, reporting if it cannot be played
+    replayInput.addEventListener("change", async () => {
+      const file: File | undefined = replayInput.files ? replayInput.files[0] : undefined;
+      if (!file) return;
+
+      try {
+        replay = InputRecorder.parse(JSON.parse(await file.text()));
+        replayText.textContent = `Replay loaded (seed ${replay.seed})`;
+
+      } catch {
+        replay = undefined;
+        replayText.textContent = "Invalid replay file";
+      }
+    });
 
     document.body.appendChild(menu);
 
@@ -134,7 +220,9 @@ export class UIManager {
 
         await this.screenTransition(true, 1); // Fade to black
   
-        resolve();
+        this.lastSeedText = seedInput.value.trim();
+
+        resolve({ seedText: this.lastSeedText, replay });
         menu.remove();
 
         this.GAME_INFO.classList.remove("hidden"); // Show game info
@@ -144,39 +232,363 @@ export class UIManager {
     });
   }
 
+  /**
+   * Prompts the pause menu over the frozen game.
+   * @returns A promise which resolves with the chosen option once the user clicks one.
+   */
+  public async pausePrompt(): Promise<PauseChoice> {
+    const pauseContent: DocumentFragment = this.PAUSE_TEMPLATE.content.cloneNode(true) as DocumentFragment;
+    const pauseMenu: HTMLDivElement = pauseContent.querySelector("#pause-menu") as HTMLDivElement;
+    const settingsButton: HTMLButtonElement = pauseMenu.querySelector("#settings-button") as HTMLButtonElement;
+
+    settingsButton.addEventListener("click", () => this.settingsPrompt());
+
+    const buttons: [HTMLButtonElement, PauseChoice][] = [
+      [pauseMenu.querySelector("#resume-button") as HTMLButtonElement, "resume"],
+      [pauseMenu.querySelector("#restart-button") as HTMLButtonElement, "restart"],
+      [pauseMenu.querySelector("#quit-button") as HTMLButtonElement, "quit"]
+    ];
+
+    document.body.appendChild(pauseMenu);
+
+    const choice: PauseChoice = await new Promise((resolve) => {
+      for (const [button, choice] of buttons) {
+        button.addEventListener("click", () => resolve(choice), {once: true});
+      }
+    });
+
+    Game.instance.audioManager.get("click").emit(true); // Play click sound
+
+    // Fade to black before leaving the run
+    if (choice !== "resume") await this.screenTransition(true, 0.5);
+
+    pauseMenu.remove();
+
+    if (choice === "quit") this.GAME_INFO.classList.add("hidden"); // Hide the game info UI
+    if (choice === "restart") this.screenTransition(false, 1); // Fade out of black
+
+    return choice;
+  }
+
+  /**
+   * Prompts the settings screen for rebinding controls and changing aim, audio, graphics and accessibility settings.
+   * @returns A promise which resolves once the user clicks the back button.
+   */
+  public async settingsPrompt(): Promise<void> {
+    const settingsContent: DocumentFragment = this.SETTINGS_TEMPLATE.content.cloneNode(true) as DocumentFragment;
+    const settingsScreen: HTMLDivElement = settingsContent.querySelector("#settings-screen") as HTMLDivElement;
+    const bindingList: HTMLDivElement = settingsScreen.querySelector("#binding-list") as HTMLDivElement;
+    const gameSettingInputs: HTMLInputElement[] = Array.from(settingsScreen.querySelectorAll("#game-settings input"));
+    const mouseInput: HTMLInputElement = settingsScreen.querySelector("#mouse-sensitivity-input") as HTMLInputElement;
+    const scrollInput: HTMLInputElement = settingsScreen.querySelector("#scroll-sensitivity-input") as HTMLInputElement;
+    const invertYInput: HTMLInputElement = settingsScreen.querySelector("#invert-y-input") as HTMLInputElement;
+    const gamepadStatus: HTMLSpanElement = settingsScreen.querySelector("#gamepad-status") as HTMLSpanElement;
+    const gamepadInput: HTMLInputElement = settingsScreen.querySelector("#gamepad-sensitivity-input") as HTMLInputElement;
+    const deadZoneInput: HTMLInputElement = settingsScreen.querySelector("#dead-zone-input") as HTMLInputElement;
+    const stickCurveInput: HTMLInputElement = settingsScreen.querySelector("#stick-curve-input") as HTMLInputElement;
+    const resetButton: HTMLButtonElement = settingsScreen.querySelector("#reset-settings-button") as HTMLButtonElement;
+    const backButton: HTMLButtonElement = settingsScreen.querySelector("#settings-back-button") as HTMLButtonElement;
+
+    const settings: InputSettings = Game.instance.inputSettings;
+    const gameSettings: Settings = Game.instance.settings;
+
+    // Fill the inputs from the current settings
+    const showSettings = (): void => {
+      this.createBindingRows(bindingList);
+
+      for (const input of [mouseInput, scrollInput, gamepadInput]) {
+        input.min = String(settings.MIN_SENSITIVITY);
+        input.max = String(settings.MAX_SENSITIVITY);
+      }
+
+      deadZoneInput.max = String(settings.MAX_DEAD_ZONE);
+      stickCurveInput.min = String(settings.MIN_STICK_CURVE);
+      stickCurveInput.max = String(settings.MAX_STICK_CURVE);
+
+      mouseInput.value = String(settings.mouseSensitivity);
+      scrollInput.value = String(settings.scrollSensitivity);
+      invertYInput.checked = settings.invertY;
+      gamepadInput.value = String(settings.gamepadSensitivity);
+      deadZoneInput.value = String(settings.deadZone);
+      stickCurveInput.value = String(settings.stickCurve);
+
+      // Fill each game setting input named by its data-setting attribute
+      for (const input of gameSettingInputs) {
+        if (input.type === "checkbox") {
+          input.checked = gameSettings.get(input.dataset.setting as BooleanSetting);
+
+        } else {
+          const [min, max]: [number, number] = gameSettings.RANGES[input.dataset.setting as NumberSetting];
+
+          input.min = String(min);
+          input.max = String(max);
+          input.value = String(gameSettings.get(input.dataset.setting as NumberSetting));
+        }
+      }
+    };
+
+    // Show whether or not a gamepad is connected, updating as gamepads are plugged in and out
+    const showGamepadStatus = (): void => {
+      const gamepad: Gamepad | undefined = Game.instance.userController.gamepad.gamepad;
+
+      gamepadStatus.textContent = gamepad ? `Gamepad: ${gamepad.id}` : "Gamepad: not connected";
+    };
+
+    const gamepadConnections: EventConnection[] = [
+      Game.instance.userController.gamepad.connected.connect(showGamepadStatus),
+      Game.instance.userController.gamepad.disconnected.connect(showGamepadStatus)
+    ];
+
+    showGamepadStatus();
+
+    mouseInput.addEventListener("input", () => {
+      settings.mouseSensitivity = Number(mouseInput.value);
+      settings.save();
+    });
+
+    scrollInput.addEventListener("input", () => {
+      settings.scrollSensitivity = Number(scrollInput.value);
+      settings.save();
+    });
+
+    invertYInput.addEventListener("change", () => {
+      settings.invertY = invertYInput.checked;
+      settings.save();
+    });
+
+    gamepadInput.addEventListener("input", () => {
+      settings.gamepadSensitivity = Number(gamepadInput.value);
+      settings.save();
+    });
+
+    deadZoneInput.addEventListener("input", () => {
+      settings.deadZone = Number(deadZoneInput.value);
+      settings.save();
+    });
+
+    stickCurveInput.addEventListener("input", () => {
+      settings.stickCurve = Number(stickCurveInput.value);
+      settings.save();
+    });
+
+    // Apply game settings live as their inputs change
+    for (const input of gameSettingInputs) {
+      if (input.type === "checkbox") {
+        input.addEventListener("change", () => gameSettings.set(input.dataset.setting as BooleanSetting, input.checked));
+
+      } else {
+        input.addEventListener("input", () => gameSettings.set(input.dataset.setting as NumberSetting, Number(input.value)));
+      }
+    }
+
+    resetButton.addEventListener("click", () => {
+      settings.reset();
+      gameSettings.reset();
+      showSettings();
+    });
+
+    showSettings();
+
+    document.body.appendChild(settingsScreen);
+
+    return new Promise((resolve) => {
+      backButton.addEventListener("click", () => {
+        Game.instance.audioManager.get("click").emit(true); // Play click sound
+
+        for (const connection of gamepadConnections) connection.disconnect();
+
+        resolve();
+        settingsScreen.remove();
+
+      }, {once: true});
+    });
+  }
+
+  /**
+   * Creates a row for every control with a button for each of its binding slots.
+   * @param bindingList The element to add the rows to.
+   */
+  private createBindingRows(bindingList: HTMLDivElement): void {
+    const controlNames: Record<Control, string> = {
+      [Control.moveF]: "Move forward",
+      [Control.moveL]: "Move left",
+      [Control.moveR]: "Move right",
+      [Control.moveB]: "Move back",
+      [Control.jump]: "Jump",
+      [Control.sprint]: "Sprint",
+      [Control.scan]: "Scan",
+      [Control.switchScan]: "Switch scan mode"
+    };
+
+    const settings: InputSettings = Game.instance.inputSettings;
+
+    bindingList.replaceChildren();
+
+    for (const control of CONTROLS) {
+      const row: HTMLDivElement = document.createElement("div");
+      const name: HTMLSpanElement = document.createElement("span");
+
+      row.classList.add("setting-row");
+      name.textContent = controlNames[control];
+      row.appendChild(name);
+
+      for (let slot = 0; slot < settings.MAX_BINDINGS; slot++) {
+        const button: HTMLButtonElement = document.createElement("button");
+        const binding: Binding | undefined = settings.getBindings(control)[slot];
+
+        button.classList.add("text-button");
+        button.textContent = binding ? InputSettings.describe(binding) : "-";
+
+        button.addEventListener("click", async () => {
+          button.classList.add("listening");
+          button.textContent = "Press input...";
+
+          const newBinding: Binding | null | undefined = await this.awaitBinding();
+
+          // Clear the slot on null, and keep it unchanged if cancelled
+          if (newBinding !== undefined) settings.setBinding(control, slot, newBinding || undefined);
+
+          this.createBindingRows(bindingList); // Redraw since the input may have been unbound from another control
+        });
+
+        row.appendChild(button);
+      }
+
+      bindingList.appendChild(row);
+    }
+  }
+
+  /**
+   * Creates a promise that resolves with the next key, mouse button or gamepad button the user presses.
+   * @returns The created promise, resolving with the binding, null if the user cleared it with backspace or delete, or undefined if cancelled with escape.
+   */
+  private async awaitBinding(): Promise<Binding | null | undefined> {
+    return new Promise((resolve) => {
+      const gamepadSource: GamepadSource = Game.instance.userController.gamepad;
+      let heldButtons: Set<number> | undefined;
+
+      const finish = (binding: Binding | null | undefined): void => {
+        document.removeEventListener("keydown", onKey, true);
+        document.removeEventListener("mousedown", onMouse, true);
+        clearInterval(interval);
+
+        resolve(binding);
+      };
+
+      const onKey = (event: KeyboardEvent): void => {
+        event.preventDefault();
+        event.stopPropagation();
+
+        if (event.code === "Escape") finish(undefined);
+        else if (event.code === "Backspace" || event.code === "Delete") finish(null);
+        else finish(event.code);
+      };
+
+      const onMouse = (event: MouseEvent): void => {
+        event.preventDefault();
+        event.stopPropagation();
+
+        // Swallow the click that follows so it does not press whatever is under the mouse
+        document.addEventListener("click", (click: MouseEvent) => click.stopPropagation(), { capture: true, once: true });
+
+        finish(InputSettings.mouseBinding(event.button));
+      };
+
+      // Poll the gamepad for a button that was not already held when listening started
+      const onGamepad = (): void => {
+        const gamepad: Gamepad | undefined = gamepadSource.gamepad;
+        if (!gamepad) return;
+
+        const pressed: Set<number> = new Set();
+
+        gamepad.buttons.forEach((button: GamepadButton, index: number) => {
+          if (button.pressed) pressed.add(index);
+        });
+
+        if (heldButtons) {
+          for (const index of pressed) {
+            if (!heldButtons.has(index)) return finish(InputSettings.gamepadBinding(index));
+          }
+        }
+
+        heldButtons = pressed;
+      };
+
+      const interval: ReturnType<typeof setInterval> = setInterval(onGamepad, 50);
+
+      // Listen after the current click has finished so it is not captured as the binding
+      setTimeout(() => {
+        document.addEventListener("keydown", onKey, true);
+        document.addEventListener("mousedown", onMouse, true);
+      });
+    });
+  }
+
   /** Update all bar displays based on current game state. */
   public updateGameInfo(): void {
     const player: Player = Game.instance.player;
-    const monster: Monster = Game.instance.monster;
 
     const staminaBar: HTMLProgressElement = this.GAME_INFO.querySelector("#stamina-bar")!.querySelector("progress")!;
+    const energyContainer: HTMLDivElement = this.GAME_INFO.querySelector("#energy-bar")!;
+    const energyBar: HTMLProgressElement = energyContainer.querySelector("progress")!;
     const scanRangeBar: HTMLProgressElement = this.GAME_INFO.querySelector("#scan-range-bar")!.querySelector("progress")!;
+    const scanRangeText: HTMLSpanElement = this.GAME_INFO.querySelector("#scan-range-bar")!.querySelector("span")!;
+    const scanModeText: HTMLSpanElement = this.GAME_INFO.querySelector("#scan-mode")!.querySelector("span")!;
     const fearBar: HTMLProgressElement = this.GAME_INFO.querySelector("#fear-bar")!.querySelector("progress")!;
+    const objectiveText: HTMLSpanElement = this.GAME_INFO.querySelector("#objective-counter")!.querySelector("span")!;
 
     staminaBar.value = player.stamina;
     staminaBar.max = player.MAX_STAMINA;
 
-    scanRangeBar.value = (player.scanAngle - player.MIN_SCAN_ANGLE) / (player.MAX_SCAN_ANGLE - player.MIN_SCAN_ANGLE);
+    // Show the scanner energy, marking the bar while the scanner is overheated
+    energyBar.value = player.energy;
+    energyBar.max = player.MAX_ENERGY;
+    energyContainer.classList.toggle("overheated", player.overheated);
+    energyContainer.querySelector("span")!.textContent = player.overheated ? "Scanner Overheated" : "Scanner Energy";
+
+    // Show the selected scan mode and its own indicator value
+    scanModeText.textContent = `Scan Mode: ${player.scanMode.label}`;
+    scanRangeText.textContent = player.scanMode.indicatorLabel;
+
+    scanRangeBar.value = player.scanMode.getIndicatorValue(player);
     scanRangeBar.max = 1;
 
-    fearBar.value = monster.aggression;
-    fearBar.max = monster.MAX_AGGRESSION;
+    // Show the fear of the most aggressive monster
+    let fear: number = 0;
+
+    for (const monster of Game.instance.monsters) {
+      fear = Math.max(fear, monster.aggression / monster.MAX_AGGRESSION);
+    }
+
+    fearBar.value = fear;
+    fearBar.max = 1;
+
+    objectiveText.textContent = `Objectives ${Game.instance.objectives.collectedCount}/${Game.instance.objectives.total}`;
   }
 
   /**
-   * Prompts the game end screen.
+   * Prompts the game end screen for the outcome of the run.
+   * @param outcome How the run ended.
    * @returns A promise which resolves once the user clicks the replay button.
    */
-  public async endScreenPrompt(): Promise<void> {
-    const endContent: DocumentFragment = this.END_TEMPLATE.content.cloneNode(true) as DocumentFragment;
+  public async endScreenPrompt(outcome: Outcome): Promise<void> {
+    const template: HTMLTemplateElement = outcome === "victory" ? this.VICTORY_TEMPLATE : this.END_TEMPLATE;
+    const endContent: DocumentFragment = template.content.cloneNode(true) as DocumentFragment;
     const endScreen: HTMLDivElement = endContent.querySelector("#end-screen") as HTMLDivElement;
     const button: HTMLButtonElement = endScreen.querySelector("#replay-button") as HTMLButtonElement;
+    const seedText: HTMLSpanElement = endScreen.querySelector(".seed-text") as HTMLSpanElement;
+    const saveReplayButton: HTMLButtonElement = endScreen.querySelector(".save-replay-button") as HTMLButtonElement;
+
+    seedText.textContent = `Seed: ${Game.instance.random.seed}`; // Show the seed so the run can be reproduced
+
+    saveReplayButton.addEventListener("click", () => Game.instance.recorder.download()); // Save the run's inputs to share or regress
 
     document.body.appendChild(endScreen);
 
     this.GAME_INFO.classList.add("hidden"); // Hide the game info UI
 
-    const staticAudio: AudioEmission = Game.instance.audioManager.get("static").emit(true); // Play the static audio
+    // Play the static audio after dying, or the menu music after escaping
+    const endAudio: AudioEmission = Game.instance.audioManager.get(outcome === "death" ? "static" : "menu").emit(true);
 
     await this.screenTransition(false, 1, 2); // Start black and fade in
 
@@ -184,7 +596,7 @@ export class UIManager {
       button.addEventListener("click", async () => {
         button.classList.add("clicked");
 
-        staticAudio.stop(); // Stop static
+        endAudio.stop(); // Stop end screen audio
         Game.instance.audioManager.get("click").emit(true); // Play click sound
 
         await this.screenTransition(true, 1); // Fade to black
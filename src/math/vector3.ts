@@ -109,4 +109,14 @@ export class Vector3 {
   public getOrthogonalComponent(vector: Vector3): Vector3 {
     return this.subtract(this.getParallelComponent(vector));
   }
+
+  /**
+   * Linearly interpolates between this vector and another.
+   * @param vector The other vector.
+   * @param alpha The interpolation amount, where 0 is this vector and 1 is the other.
+   * @returns The interpolated vector.
+   */
+  public lerp(vector: Vector3, alpha: number): Vector3 {
+    return this.add(vector.subtract(this).multiply(alpha));
+  }
 }
\ No newline at end of file
@@ -4,10 +4,8 @@ import { Matrix4 } from "../math/matrix4.js";
 import { Util } from "../util/util.js";
 import { Vector3 } from "../math/vector3.js";
 
-type MeshName = "map" | "monster";
-
 interface MeshInfo {
-  name: MeshName,
+  name: string,
   ignoreGameMesh?: boolean
 }
 
@@ -17,14 +15,13 @@ interface MeshResult {
 }
 
 export class MeshLoader {
-  /** Default mesh info. */
+  /** Default mesh info, with level meshes being loaded separately. */
   private readonly MESH_INFO: MeshInfo[] = [
-    { name: "map" },
     { name: "monster", ignoreGameMesh: true }
   ];
 
-  /** A map of the default loaded mesh results. */
-  private readonly meshes: Map<MeshName, MeshResult> = new Map();
+  /** A map of the loaded mesh results. */
+  private readonly meshes: Map<string, MeshResult> = new Map();
 
   /** Initialize and load all default meshes. */
   public async init(): Promise<void> {
@@ -33,7 +30,7 @@ export class MeshLoader {
     // Create all mesh load promises
     for (let i = 0; i < this.MESH_INFO.length; i++) {
       const info: MeshInfo = this.MESH_INFO[i];
-      promises[i] = this.loadMesh(`res/models/${info.name}.obj`, info.ignoreGameMesh);
+      promises[i] = Game.instance.loadTracker.track(this.loadMesh(`res/models/${info.name}.obj`, info.ignoreGameMesh));
     }
 
     // Load meshes simultaneously
@@ -44,6 +41,17 @@ export class MeshLoader {
     }
   }
 
+  /**
+   * Loads a mesh by name from an obj file, skipping it if a mesh with the name is already loaded.
+   * @param name The name of the mesh.
+   * @param path The path to the obj file.
+   */
+  public async load(name: string, path: string): Promise<void> {
+    if (this.meshes.has(name)) return;
+
+    this.meshes.set(name, await Game.instance.loadTracker.track(this.loadMesh(path)));
+  }
+
   /**
    * Loads a mesh from an obj file.
    * @param path The path to the obj file.
@@ -106,7 +114,7 @@ export class MeshLoader {
    * @param name The name of the mesh.
    * @returns The render model.
    */
-  public createRenderModel(name: MeshName): RenderModel {
+  public createRenderModel(name: string): RenderModel {
     return new RenderModel(this.meshes.get(name)!.renderMesh);
   }
 
@@ -115,7 +123,7 @@ export class MeshLoader {
    * @param name The name of the mesh.
    * @returns The game model.
    */
-  public createGameModel(name: MeshName): GameModel {
+  public createGameModel(name: string): GameModel {
     const gameMesh: GameMesh | undefined = this.meshes.get(name)!.gameMesh;
 
     if (!gameMesh) throw new Error(`Game mesh does not exist for ${name}`); // Throw error if the mesh does not exist
@@ -0,0 +1,484 @@
+import { BVH, RaycastInfo } from "../collisions/bvh.js";
+import { Bounds, Ray, Surface } from "../collisions/collisions.js";
+import { Vector3 } from "../math/vector3.js";
+
+/** Represents a walkable point on the navigation grid and its connections. */
+class NavNode {
+  public readonly neighbours: NavNode[] = [];
+  /** The additional traversal cost scale for being close to walls or ledges. */
+  public penalty: number = 0;
+
+  /**
+   * Creates a navigation node.
+   * @param column The index of the grid column the node lies in.
+   * @param position The floor position of the node.
+   */
+  constructor(
+    public readonly column: number,
+    public readonly position: Vector3
+  ) {}
+}
+
+/** A binary min heap of nodes ordered by their estimated path cost. */
+class NodeHeap {
+  private nodes: NavNode[] = [];
+  private costs: number[] = [];
+
+  public get size(): number {
+    return this.nodes.length;
+  }
+
+  /**
+   * Adds a node to the heap.
+   * @param node The node.
+   * @param cost The estimated total cost of the node.
+   */
+  public push(node: NavNode, cost: number): void {
+    let i: number = this.nodes.length;
+
+    this.nodes.push(node);
+    this.costs.push(cost);
+
+    // Sift the node up until its parent has a lower cost
+    while (i > 0) {
+      const parent: number = (i - 1) >> 1;
+      if (this.costs[parent] <= this.costs[i]) break;
+
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  /**
+   * Removes and returns the node with the lowest cost.
+   * @returns The lowest cost node.
+   */
+  public pop(): NavNode | undefined {
+    if (this.nodes.length === 0) return;
+
+    const top: NavNode = this.nodes[0];
+    const lastNode: NavNode = this.nodes.pop()!;
+    const lastCost: number = this.costs.pop()!;
+
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.costs[0] = lastCost;
+
+      let i: number = 0;
+
+      // Sift the moved node down until both children have a higher cost
+      while (true) {
+        const left: number = 2 * i + 1;
+        const right: number = left + 1;
+        let smallest: number = i;
+
+        if (left < this.nodes.length && this.costs[left] < this.costs[smallest]) smallest = left;
+        if (right < this.nodes.length && this.costs[right] < this.costs[smallest]) smallest = right;
+        if (smallest === i) break;
+
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+
+    return top;
+  }
+
+  /**
+   * Swaps two entries in the heap.
+   * @param a The first index.
+   * @param b The second index.
+   */
+  private swap(a: number, b: number): void {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.costs[a], this.costs[b]] = [this.costs[b], this.costs[a]];
+  }
+}
+
+/** Generates a navigation grid from the walkable surfaces of a BVH and handles path queries across it. */
+export class NavGrid {
+  private readonly CELL_SIZE: number = 2;
+  private readonly AGENT_HEIGHT: number = 7;
+  public readonly STEP_HEIGHT: number = 1.5;
+  private readonly JUMP_HEIGHT: number = 5.5;
+  private readonly DROP_HEIGHT: number = 12;
+  private readonly WALL_PENALTY: number = 4;
+  private readonly MIN_LAYER_GAP: number = 0.1;
+  private readonly SCAN_OFFSET: number = 0.05;
+
+  private bvh: BVH;
+  private origin: Vector3;
+  private columnsX: number;
+  private columnsZ: number;
+
+  private nodes: NavNode[] = [];
+  /** A map of column indices and the nodes stacked within them, from highest to lowest. */
+  private columns: Map<number, NavNode[]> = new Map();
+
+  /** Returns the number of walkable nodes in the grid. */
+  public get nodeCount(): number {
+    return this.nodes.length;
+  }
+
+  /**
+   * Generates the grid from an initialized BVH.
+   * @param bvh The BVH containing the level geometry.
+   */
+  public init(bvh: BVH): void {
+    this.bvh = bvh;
+    this.nodes = [];
+    this.columns.clear();
+
+    const bounds: Bounds = bvh.bounds;
+
+    this.origin = bounds.min;
+    this.columnsX = Math.ceil(bounds.dimensions.x / this.CELL_SIZE);
+    this.columnsZ = Math.ceil(bounds.dimensions.z / this.CELL_SIZE);
+
+    // Create nodes for every walkable layer of every column
+    for (let x = 0; x < this.columnsX; x++) {
+      for (let z = 0; z < this.columnsZ; z++) {
+        this.createColumn(x, z, bounds.max.y + 1);
+      }
+    }
+
+    // Connect each node to the nodes in the surrounding columns, checking each pair of columns only once
+    for (const node of this.nodes) {
+      const x: number = node.column % this.columnsX;
+      const z: number = Math.floor(node.column / this.columnsX);
+
+      for (const [offsetX, offsetZ] of [[1, -1], [1, 0], [1, 1], [0, 1]]) {
+        const others: NavNode[] | undefined = this.columns.get(this.getColumnIndex(x + offsetX, z + offsetZ));
+        if (!others) continue;
+
+        for (const other of others) {
+          this.connect(node, other);
+        }
+      }
+    }
+
+    // Penalize nodes which cannot walk in every direction, since they lie along walls or ledges
+    for (const node of this.nodes) {
+      const walkableColumns: Set<number> = new Set();
+
+      for (const neighbour of node.neighbours) {
+        if (this.isStep(node, neighbour)) walkableColumns.add(neighbour.column);
+      }
+
+      if (walkableColumns.size < 8) node.penalty = this.WALL_PENALTY;
+    }
+  }
+
+  /**
+   * Gets the index of a column from its grid coordinates.
+   * @param x The x coordinate.
+   * @param z The z coordinate.
+   * @returns The column index, or -1 if outside the grid.
+   */
+  private getColumnIndex(x: number, z: number): number {
+    if (x < 0 || z < 0 || x >= this.columnsX || z >= this.columnsZ) return -1;
+
+    return x + z * this.columnsX;
+  }
+
+  /**
+   * Gets the index of the column containing a world position.
+   * @param position The world position.
+   * @returns The column index, or -1 if outside the grid.
+   */
+  private getColumnAt(position: Vector3): number {
+    return this.getColumnIndex(
+      Math.floor((position.x - this.origin.x) / this.CELL_SIZE),
+      Math.floor((position.z - this.origin.z) / this.CELL_SIZE)
+    );
+  }
+
+  /**
+   * Casts downwards through a column, creating a node for every walkable floor with enough headroom.
+   * @param x The column x coordinate.
+   * @param z The column z coordinate.
+   * @param top The height to start scanning from.
+   */
+  private createColumn(x: number, z: number, top: number): void {
+    const column: number = this.getColumnIndex(x, z);
+    const columnNodes: NavNode[] = [];
+
+    let origin: Vector3 = new Vector3(
+      this.origin.x + (x + 0.5) * this.CELL_SIZE,
+      top,
+      this.origin.z + (z + 0.5) * this.CELL_SIZE
+    );
+
+    let lastHeight: number = Infinity;
+    let info: RaycastInfo | undefined = this.bvh.raycast(new Ray(origin, Vector3.y.multiply(-1)));
+
+    while (info) {
+      const floor: Vector3 = info.position;
+
+      // Skip surfaces that are not floors or are practically the same layer as the last one
+      if (Surface.isFloor(info.normal) && lastHeight - floor.y > this.MIN_LAYER_GAP && this.hasHeadroom(floor)) {
+        const node: NavNode = new NavNode(column, floor);
+
+        this.nodes.push(node);
+        columnNodes.push(node);
+      }
+
+      lastHeight = floor.y;
+      origin = floor.subtract(Vector3.y.multiply(this.SCAN_OFFSET)); // Continue scanning from just below the surface
+      info = this.bvh.raycast(new Ray(origin, Vector3.y.multiply(-1)));
+    }
+
+    if (columnNodes.length > 0) this.columns.set(column, columnNodes);
+  }
+
+  /**
+   * Determines whether or not there is enough room above a floor position for the agent to stand.
+   * @param floor The floor position.
+   * @returns True if there is enough headroom, false if otherwise.
+   */
+  private hasHeadroom(floor: Vector3): boolean {
+    const ray: Ray = new Ray(floor.add(Vector3.y.multiply(this.SCAN_OFFSET)), Vector3.y);
+
+    return this.bvh.raycast(ray, this.AGENT_HEIGHT) === undefined;
+  }
+
+  /**
+   * Links two neighbouring nodes in whichever directions the height difference between them allows.
+   * Climbing is limited by the jump height, while dropping down is limited by the drop height.
+   * @param a The first node.
+   * @param b The second node.
+   */
+  private connect(a: NavNode, b: NavNode): void {
+    const rise: number = b.position.y - a.position.y;
+
+    if (Math.abs(rise) > Math.max(this.JUMP_HEIGHT, this.DROP_HEIGHT)) return;
+    if (!this.hasClearLine(a.position, b.position)) return;
+
+    if (rise <= this.JUMP_HEIGHT && -rise <= this.DROP_HEIGHT) a.neighbours.push(b);
+    if (-rise <= this.JUMP_HEIGHT && rise <= this.DROP_HEIGHT) b.neighbours.push(a);
+  }
+
+  /**
+   * Determines whether or not two nodes are close enough in height to walk between without jumping or dropping.
+   * @param a The first node.
+   * @param b The second node.
+   * @returns True if the height difference is a step, false if otherwise.
+   */
+  private isStep(a: NavNode, b: NavNode): boolean {
+    return Math.abs(b.position.y - a.position.y) <= this.STEP_HEIGHT;
+  }
+
+  /**
+   * Determines whether or not there are any walls between two neighbouring floor positions.
+   * @param from The start floor position.
+   * @param to The end floor position.
+   * @returns True if the line is clear, false if otherwise.
+   */
+  private hasClearLine(from: Vector3, to: Vector3): boolean {
+    // Cast at a height above any climbable step in both directions, since rays ignore back faces
+    const height: number = Math.max(from.y, to.y) + this.STEP_HEIGHT + this.SCAN_OFFSET;
+    const start: Vector3 = new Vector3(from.x, height, from.z);
+    const end: Vector3 = new Vector3(to.x, height, to.z);
+    const difference: Vector3 = end.subtract(start);
+
+    if (this.bvh.raycast(new Ray(start, difference.unit), difference.magnitude)) return false;
+    if (this.bvh.raycast(new Ray(end, difference.unit.multiply(-1)), difference.magnitude)) return false;
+
+    return true;
+  }
+
+  /**
+   * Finds the node an agent is standing on or above.
+   * @param position The agent's feet position.
+   * @returns The node, if one exists in the column.
+   */
+  private getNode(position: Vector3): NavNode | undefined {
+    const nodes: NavNode[] | undefined = this.columns.get(this.getColumnAt(position));
+    if (!nodes) return;
+
+    let closest: NavNode | undefined;
+
+    // Get the highest node below the position, falling back on the closest node above it
+    for (const node of nodes) {
+      if (node.position.y <= position.y + this.STEP_HEIGHT) return node;
+
+      closest = node;
+    }
+
+    return closest;
+  }
+
+  /**
+   * Finds the nearest node to a position, searching outwards through surrounding columns if its own column is empty.
+   * @param position The agent's feet position.
+   * @param searchRadius The number of columns to search outwards.
+   * @returns The nearest node, if any.
+   */
+  private getNearestNode(position: Vector3, searchRadius: number = 3): NavNode | undefined {
+    const node: NavNode | undefined = this.getNode(position);
+    if (node) return node;
+
+    let nearest: NavNode | undefined;
+    let nearestDistance: number = Infinity;
+
+    for (let offsetX = -searchRadius; offsetX <= searchRadius; offsetX++) {
+      for (let offsetZ = -searchRadius; offsetZ <= searchRadius; offsetZ++) {
+        const other: NavNode | undefined = this.getNode(position.add(new Vector3(offsetX, 0, offsetZ).multiply(this.CELL_SIZE)));
+        if (!other) continue;
+
+        const distance: number = other.position.subtract(position).magnitude;
+
+        if (distance < nearestDistance) {
+          nearest = other;
+          nearestDistance = distance;
+        }
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Determines whether or not a position is standing on the walkable grid.
+   * @param position The feet position.
+   * @returns True if walkable, false if otherwise.
+   */
+  public isWalkable(position: Vector3): boolean {
+    return this.getNode(position) !== undefined;
+  }
+
+  /**
+   * Determines whether or not two nodes can be walked between in a straight line without leaving the grid.
+   * @param from The start node.
+   * @param to The end node.
+   * @returns True if there is a walkable line, false if otherwise.
+   */
+  private hasWalkableLine(from: NavNode, to: NavNode): boolean {
+    const difference: Vector3 = to.position.subtract(from.position);
+    const flatDistance: number = Math.hypot(difference.x, difference.z);
+    const steps: number = Math.ceil(flatDistance / (this.CELL_SIZE / 2));
+
+    let current: NavNode = from;
+
+    // Step along the line, ensuring that each sample lands in the current node or one of its neighbours
+    for (let i = 1; i <= steps; i++) {
+      const column: number = this.getColumnAt(from.position.add(difference.multiply(i / steps)));
+      if (column === current.column) continue;
+
+      const next: NavNode | undefined = current.neighbours.find((node: NavNode) => node.column === column);
+
+      if (!next || !this.isStep(current, next) || next.penalty > current.penalty) return false;
+
+      current = next;
+    }
+
+    return current === to;
+  }
+
+  /**
+   * Finds a path between two positions using A* search.
+   * @param start The start feet position.
+   * @param goal The goal feet position.
+   * @returns The list of floor waypoints leading to the goal, or undefined if no path exists.
+   */
+  public findPath(start: Vector3, goal: Vector3): Vector3[] | undefined {
+    const startNode: NavNode | undefined = this.getNearestNode(start);
+    const goalNode: NavNode | undefined = this.getNearestNode(goal);
+
+    if (!startNode || !goalNode) return;
+
+    const costs: Map<NavNode, number> = new Map([[startNode, 0]]);
+    const parents: Map<NavNode, NavNode> = new Map();
+    const closed: Set<NavNode> = new Set();
+    const open: NodeHeap = new NodeHeap();
+
+    open.push(startNode, startNode.position.subtract(goalNode.position).magnitude);
+
+    while (open.size > 0) {
+      const node: NavNode = open.pop()!;
+
+      if (node === goalNode) return this.buildPath(parents, goalNode, goal);
+      if (closed.has(node)) continue;
+
+      closed.add(node);
+
+      for (const neighbour of node.neighbours) {
+        if (closed.has(neighbour)) continue;
+
+        const stepCost: number = neighbour.position.subtract(node.position).magnitude * (1 + neighbour.penalty);
+        const cost: number = costs.get(node)! + stepCost;
+
+        if (cost < (costs.get(neighbour) ?? Infinity)) {
+          costs.set(neighbour, cost);
+          parents.set(neighbour, node);
+          open.push(neighbour, cost + neighbour.position.subtract(goalNode.position).magnitude);
+        }
+      }
+    }
+  }
+
+  /**
+   * Walks back through the searched parents to build and smooth the final path.
+   * @param parents The map of nodes and the node they were reached from.
+   * @param goalNode The goal node.
+   * @param goal The exact goal position.
+   * @returns The smoothed list of waypoints.
+   */
+  private buildPath(parents: Map<NavNode, NavNode>, goalNode: NavNode, goal: Vector3): Vector3[] {
+    const nodes: NavNode[] = [goalNode];
+
+    while (parents.has(nodes[0])) nodes.unshift(parents.get(nodes[0])!);
+
+    const path: Vector3[] = [];
+    let anchor: number = 0;
+
+    // Skip over every node that can be reached in a straight line from the last kept node
+    while (anchor < nodes.length - 1) {
+      let next: number = anchor + 1;
+
+      while (next + 1 < nodes.length && this.hasWalkableLine(nodes[anchor], nodes[next + 1])) next++;
+
+      path.push(nodes[next].position);
+      anchor = next;
+    }
+
+    // Finish at the exact goal if it lies within the goal node's column
+    if (this.getColumnAt(goal) === goalNode.column) path.push(new Vector3(goal.x, goalNode.position.y, goal.z));
+
+    return path;
+  }
+
+  /**
+   * Picks a random reachable position within a radius of a position.
+   * @param position The feet position to search around.
+   * @param radius The maximum search radius.
+   * @param random The random number generator, returning values between 0 and 1.
+   * @returns The random floor position, if one was found.
+   */
+  public getRandomPosition(position: Vector3, radius: number, random: () => number): Vector3 | undefined {
+    const startNode: NavNode | undefined = this.getNearestNode(position);
+    if (!startNode) return;
+
+    const candidates: NavNode[] = [];
+    const visited: Set<NavNode> = new Set([startNode]);
+    const queue: NavNode[] = [startNode];
+
+    // Flood fill through connected nodes within the radius
+    for (let i = 0; i < queue.length; i++) {
+      const node: NavNode = queue[i];
+
+      if (node.penalty === 0) candidates.push(node);
+
+      for (const neighbour of node.neighbours) {
+        if (visited.has(neighbour) || neighbour.position.subtract(position).magnitude > radius) continue;
+
+        visited.add(neighbour);
+        queue.push(neighbour);
+      }
+    }
+
+    if (candidates.length === 0) return;
+
+    return candidates[Math.floor(random() * candidates.length)].position;
+  }
+}
@@ -18,6 +18,7 @@ export class Camera {
   private roll: number = 0;
 
   private _position: Vector3 = Vector3.zero;
+  private _renderPosition: Vector3 = Vector3.zero;
   private _rotation: Matrix4 = Matrix4.identity;
 
   private currentFov: number = 70;
@@ -32,13 +33,18 @@ export class Camera {
     return this._position;
   }
 
+  /** Returns the position interpolated between physics steps, used for rendering. */
+  public get renderPosition(): Vector3 {
+    return this._renderPosition;
+  }
+
   public get rotation(): Matrix4 {
     return this._rotation;
   }
 
-  /** Returns a view matrix based on the camera's rotation and position for rendering. */
+  /** Returns a view matrix based on the camera's rotation and render position for rendering. */
   public getViewMatrix(): Matrix4 {
-    return this.rotation.transpose().multiply(Matrix4.fromPosition(this.position.multiply(-1))); // Inverse of rotation matrix (transpose because it is orthonormal)
+    return this.rotation.transpose().multiply(Matrix4.fromPosition(this._renderPosition.multiply(-1))); // Inverse of rotation matrix (transpose because it is orthonormal)
   }
 
   /** Returns a projection matrix based on the camera's properties for rendering. */
@@ -73,9 +79,17 @@ export class Camera {
     this.currentFov = this.goalFov + (this.currentFov - this.goalFov) * Math.exp(-deltaTime * this.FOV_TRANSITION_SPEED);
   }
 
-  /** Reset the camera's fov and rotation properties. */
+  /**
+   * Update the render position to track the entity between physics steps.
+   * @param alpha How far the frame is between the last step and the next.
+   */
+  public interpolate(alpha: number): void {
+    this._renderPosition = this.subject ? this.subject.getInterpolatedPosition(alpha).add(this.subjectOffset) : this._position;
+  }
+
+  /** Reset the camera's fov to the base fov setting and its rotation properties. */
   public reset(): void {
-    this.currentFov = this.goalFov = 70;
+    this.currentFov = this.goalFov = Game.instance.settings.get("baseFov");
     this.pitch = this.yaw = this.roll = 0;
   }
 }
\ No newline at end of file
@@ -1,27 +1,94 @@
 import { Game } from "../core/game.js";
 import { Matrix4 } from "../math/matrix4.js";
+import { PostProcessor } from "./postprocess.js";
 import { RenderMesh, RenderModel } from "../mesh/mesh.js";
-import { ShaderProgram } from "./shaderprogram.js";
+import { Settings } from "../core/settings.js";
+import { ShaderDefines, ShaderProgram } from "./shaderprogram.js";
+import { ShaderReloader } from "./shaderreloader.js";
 import { Vector3 } from "../math/vector3.js";
 
-interface Dot {
+/** The kinds of surfaces a dot can mark, each drawn with its own style. */
+export type DotType = "surface" | "objective" | "monster" | "hazard" | "pickup";
+
+/** The type flags written to the dot buffer, in the order the dot shaders expect. */
+const DOT_TYPES: DotType[] = ["surface", "objective", "monster", "hazard", "pickup"];
+
+/** Defines how a dot looks and how long it lasts. */
+export interface DotStyle {
+  /** The dot colour, ramped towards the dark colour on surfaces facing away from the light. */
+  color: Vector3;
+  /** The dot diameter. */
+  size: number;
+  /** The seconds until the dot fades out completely. */
+  lifetime: number;
+}
+
+interface Dot extends DotStyle {
   position: Vector3;
   normal: Vector3;
+  type: DotType;
+}
+
+/** A dot positioned relative to a render model, following it until the dot fades out. */
+interface AttachedDot extends Dot {
+  anchor: RenderModel;
+  creationTime: number;
+}
+
+/** The levels of the screen effects driven by the run, each from 0 to 1. */
+export interface EffectLevels {
+  /** Scales the chromatic aberration, from monster aggression. */
+  fear: number;
+  /** Scales the vignette, from low stamina. */
+  exhaustion: number;
+  /** Fades in the static, from being chased. */
+  chase: number;
 }
 
 /** Encapsulates the game"s screen and all relevant functionality. */
 export class Canvas {
   private readonly DOT_RESOLUTION: number = 9;
-  private readonly MAX_DOT_COUNT: number = 200000;
-  private readonly DOT_FIELD_COUNT: number = 3 + 3 + 1; // (3 for position, 3 for normal, 1 for creation time)
+  private readonly DOT_FIELD_COUNT: number = 3 + 3 + 1 + 3 + 1 + 1 + 1; // (3 for position, 3 for normal, 1 for creation time, 3 for colour, 1 for size, 1 for lifetime, 1 for type)
+
+  /** The dot tuning, defined in the dot shaders. */
+  private readonly DOT_DEFINES: ShaderDefines = {
+    NORMAL_OFFSET: 0.01,
+    DOT_COLOR_DARK: new Vector3(0, 0, 1)
+  };
+
+  /** The default style of each dot type. */
+  private readonly DOT_STYLES: Record<DotType, DotStyle> = {
+    surface: { color: new Vector3(1, 0, 0), size: 0.15, lifetime: 30 },
+    objective: { color: new Vector3(0.2, 1, 0.4), size: 0.12, lifetime: 10 },
+    monster: { color: new Vector3(1, 0.05, 0.05), size: 0.2, lifetime: 3 },
+    hazard: { color: new Vector3(1, 0.6, 0), size: 0.15, lifetime: 20 },
+    pickup: { color: new Vector3(0.3, 0.8, 1), size: 0.12, lifetime: 10 }
+  };
+
+  private readonly BLOOM_THRESHOLD: number = 0.4;
+  private readonly BLOOM_STRENGTH: number = 0.8;
+  private readonly MAX_ABERRATION: number = 0.02;
+  private readonly GRAIN_AMOUNT: number = 0.06;
+
+  /** The static intensity while being chased, and the rate the static eases towards its target intensity. */
+  private readonly CHASE_STATIC_INTENSITY: number = 0.25;
+  private readonly STATIC_EASE_RATE: number = 3;
 
   private element: HTMLCanvasElement;
   private gl: WebGL2RenderingContext;
 
   private dotShader: ShaderProgram;
   private shapeShader: ShaderProgram;
-  private endScreenShader: ShaderProgram;
 
+  /** Draws the scene through the post-processing passes to the screen. */
+  private postProcessor: PostProcessor;
+
+  /** Reloads the shader programs as their files change, started in dev mode. */
+  public readonly shaderReloader: ShaderReloader;
+
+  /** The dot ring buffer capacity, set by the dot budget setting. */
+  private maxDotCount: number = 200000;
+  /** The ring buffer index the next dot is written to, overwriting the oldest dot once the buffer is full. */
   private currentDot: number = 0;
   private dotCount: number = 0;
   private dotVertexBuffer: WebGLBuffer;
@@ -29,16 +96,27 @@ export class Canvas {
 
   private dotQueue: Dot[] = [];
 
-  private screenRectBuffer: WebGLBuffer;
+  /** The attached dot capacity, the oldest attached dots being dropped once exceeded. */
+  private readonly MAX_ATTACHED_DOT_COUNT: number = 2000;
+  private attachedDots: AttachedDot[] = [];
+  private attachedDotBuffer: WebGLBuffer;
 
   private height: number;
   private width: number;
   private aspectRatio: number;
+  private resolutionScale: number = 1;
+  private reducedFlashing: boolean = false;
 
   private renderModels: Map<RenderMesh, Set<RenderModel>> = new Map();
 
   private _endScreenActive: boolean = false;
 
+  /** The current screen effect levels, set by the game every frame of a run. */
+  public effectLevels: EffectLevels = { fear: 0, exhaustion: 0, chase: 0 };
+
+  private staticIntensity: number = 0;
+  private lastRenderTime: number = 0;
+
   constructor() {
     this.element = document.getElementById("game-screen") as HTMLCanvasElement;
 
@@ -49,7 +127,11 @@ export class Canvas {
     // Create the shader program
     this.dotShader = new ShaderProgram(this.gl);
     this.shapeShader = new ShaderProgram(this.gl);
-    this.endScreenShader = new ShaderProgram(this.gl);
+
+    this.postProcessor = new PostProcessor(this.gl);
+    this.initPostPasses();
+
+    this.shaderReloader = new ShaderReloader([this.shapeShader, this.dotShader, ...this.postProcessor.programs]);
 
     // Set webgl settings
     this.gl.enable(this.gl.DEPTH_TEST);
@@ -68,13 +150,13 @@ export class Canvas {
   }
 
   public async init(): Promise<void> {
-    this.initBuffers();
+    if (!this.dotVertexBuffer) this.initBuffers(); // Skip if a previous attempt already created the buffers
 
     // Wait for shader to load their vertex and fragment shaders
     await Promise.all([
-      this.shapeShader.initShaders("res/shaders/shapeVertex.glsl", "res/shaders/shapeFragment.glsl"),
-      this.dotShader.initShaders("res/shaders/dotVertex.glsl", "res/shaders/dotFragment.glsl"),
-      this.endScreenShader.initShaders("res/shaders/staticVertex.glsl", "res/shaders/staticFragment.glsl")
+      Game.instance.loadTracker.track(this.shapeShader.initShaders("res/shaders/shapeVertex.glsl", "res/shaders/shapeFragment.glsl")),
+      Game.instance.loadTracker.track(this.dotShader.initShaders("res/shaders/dotVertex.glsl", "res/shaders/dotFragment.glsl", this.DOT_DEFINES)),
+      this.postProcessor.init()
     ]);
 
     // Create shape shader attribute and uniforms
@@ -90,15 +172,118 @@ export class Canvas {
     this.dotShader.createAttrib("dotPos");
     this.dotShader.createAttrib("dotNormal");
     this.dotShader.createAttrib("dotTime");
+    this.dotShader.createAttrib("dotColor");
+    this.dotShader.createAttrib("dotSize");
+    this.dotShader.createAttrib("dotLifetime");
+    this.dotShader.createAttrib("dotType");
     this.dotShader.createUniform("viewMatrix");
     this.dotShader.createUniform("projectionMatrix");
     this.dotShader.createUniform("lightSource");
     this.dotShader.createUniform("time");
+    this.dotShader.createUniform("reducedFlashing");
+  }
+
+  /** Adds the post-processing passes in the order they run, with their targets. */
+  private initPostPasses(): void {
+    // Blur the bright parts of the scene at half resolution
+    this.postProcessor.addTarget("bloomA", 0.5);
+    this.postProcessor.addTarget("bloomB", 0.5);
+
+    this.postProcessor.addPass({
+      name: "bloom-extract",
+      fragPath: "res/shaders/bloomExtract.glsl",
+      defines: { BLOOM_THRESHOLD: this.BLOOM_THRESHOLD },
+      inputs: { source: "previous" },
+      output: "bloomA"
+    });
+
+    this.postProcessor.addPass({
+      name: "bloom-blur-horizontal",
+      fragPath: "res/shaders/blur.glsl",
+      defines: { BLUR_DIRECTION: "vec2(1.0, 0.0)" },
+      inputs: { source: "bloomA" },
+      output: "bloomB"
+    });
 
-    // Create end screen attribute and uniform
-    this.endScreenShader.use();
-    this.endScreenShader.createAttrib("vertexPos");
-    this.endScreenShader.createUniform("time");
+    this.postProcessor.addPass({
+      name: "bloom-blur-vertical",
+      fragPath: "res/shaders/blur.glsl",
+      defines: { BLUR_DIRECTION: "vec2(0.0, 1.0)" },
+      inputs: { source: "bloomB" },
+      output: "bloomA"
+    });
+
+    this.postProcessor.addPass({
+      name: "bloom-composite",
+      fragPath: "res/shaders/bloomComposite.glsl",
+      defines: { BLOOM_STRENGTH: this.BLOOM_STRENGTH },
+      inputs: { source: "previous", bloom: "bloomA" }
+    });
+
+    this.postProcessor.addPass({
+      name: "chromatic-aberration",
+      fragPath: "res/shaders/chromaticAberration.glsl",
+      defines: { MAX_ABERRATION: this.MAX_ABERRATION },
+      inputs: { source: "previous" },
+      uniforms: ["strength"],
+      enabled: () => this.effectLevels.fear > 0,
+      setUniforms: (program: ShaderProgram) => program.setUniformFloat("strength", this.effectLevels.fear)
+    });
+
+    this.postProcessor.addPass({
+      name: "vignette",
+      fragPath: "res/shaders/vignette.glsl",
+      inputs: { source: "previous" },
+      uniforms: ["strength"],
+      enabled: () => this.effectLevels.exhaustion > 0,
+      setUniforms: (program: ShaderProgram) => program.setUniformFloat("strength", this.effectLevels.exhaustion)
+    });
+
+    this.postProcessor.addPass({
+      name: "film-grain",
+      fragPath: "res/shaders/filmGrain.glsl",
+      defines: { GRAIN_AMOUNT: this.GRAIN_AMOUNT },
+      inputs: { source: "previous" },
+      uniforms: ["time", "reducedFlashing"],
+      setUniforms: (program: ShaderProgram) => {
+        program.setUniformFloat("time", Game.instance.elapsedTime);
+        program.setUniformFloat("reducedFlashing", this.reducedFlashing ? 1 : 0);
+      }
+    });
+
+    // The static covers the screen on the end screen and fades in partially during chases
+    this.postProcessor.addPass({
+      name: "static",
+      fragPath: "res/shaders/static.glsl",
+      inputs: { source: "previous" },
+      uniforms: ["time", "reducedFlashing", "intensity"],
+      enabled: () => this.staticIntensity > 0,
+      setUniforms: (program: ShaderProgram) => {
+        program.setUniformFloat("time", Game.instance.elapsedTime);
+        program.setUniformFloat("reducedFlashing", this.reducedFlashing ? 1 : 0);
+        program.setUniformFloat("intensity", this.staticIntensity);
+      }
+    });
+  }
+
+  /**
+   * Applies the dot budget, resolution scale and reduced flashing settings, reallocating the dot buffer if its budget changed.
+   * @param settings The game settings.
+   */
+  public applySettings(settings: Settings): void {
+    this.reducedFlashing = settings.get("reducedFlashing");
+
+    if (this.resolutionScale !== settings.get("resolutionScale")) {
+      this.resolutionScale = settings.get("resolutionScale");
+      this.updateDimensions();
+    }
+
+    if (this.maxDotCount !== settings.get("dotBudget")) {
+      this.maxDotCount = settings.get("dotBudget");
+
+      // Resize the dot buffer if it exists yet, discarding the current dots
+      if (this.dotBuffer) this.reset();
+    }
   }
 
   /**
@@ -168,68 +353,140 @@ export class Canvas {
     }
 
     this.dotVertexBuffer = this.createBuffer(dotVertexArray);
-    this.dotBuffer = this.createBuffer(new Float32Array(this.MAX_DOT_COUNT * this.DOT_FIELD_COUNT));
-
-    this.screenRectBuffer = this.createBuffer(new Float32Array([
-      -1, -1,
-      1, -1,
-      -1, 1,
-      1, 1
-    ]));
+    this.dotBuffer = this.createBuffer(new Float32Array(this.maxDotCount * this.DOT_FIELD_COUNT));
+    this.attachedDotBuffer = this.createBuffer(new Float32Array(this.MAX_ATTACHED_DOT_COUNT * this.DOT_FIELD_COUNT));
   }
 
-  /** Updates the canvas dimensions and webgl viewport based on its element's properties. */
+  /** Updates the canvas dimensions, webgl viewport and render targets based on its element's properties and the resolution scale. */
   private updateDimensions(): void {
-    this.width = this.element.clientWidth;
-    this.height = this.element.clientHeight;
+    this.width = Math.max(Math.round(this.element.clientWidth * this.resolutionScale), 1);
+    this.height = Math.max(Math.round(this.element.clientHeight * this.resolutionScale), 1);
 
     this.element.width = this.width;
     this.element.height = this.height;
     this.aspectRatio = this.width / this.height;
 
     this.gl.viewport(0, 0, this.width, this.height);
+    this.postProcessor.resize(this.width, this.height);
   }
 
   /**
    * Queue a dot to be added to the buffer the next render call.
    * @param position The dot position.
    * @param normal The dot normal.
+   * @param type The kind of surface the dot marks, which sets its default style.
+   * @param style Overrides of the type's default style.
    */
-  public createDot(position: Vector3, normal: Vector3): void {
-    this.dotQueue.push({ position, normal });
+  public createDot(position: Vector3, normal: Vector3, type: DotType = "surface", style?: Partial<DotStyle>): void {
+    this.dotQueue.push({ ...this.DOT_STYLES[type], ...style, position, normal, type });
   }
 
-  /** Dequeues all dots and adds them to the dot buffer. */
-  private emptyDotQueue(): void {
-    const dotData: Float32Array = new Float32Array(this.dotQueue.length * this.DOT_FIELD_COUNT);
-    let dotCount: number = 0;
+  /**
+   * Queue a dot attached to a render model, following the model until the dot fades out.
+   * @param anchor The model the dot is attached to.
+   * @param localPosition The dot position relative to the model's transformation.
+   * @param localNormal The dot normal relative to the model's rotation.
+   * @param type The kind of surface the dot marks, which sets its default style.
+   * @param style Overrides of the type's default style.
+   */
+  public attachDot(anchor: RenderModel, localPosition: Vector3, localNormal: Vector3, type: DotType = "monster", style?: Partial<DotStyle>): void {
+    this.attachedDots.push({
+      ...this.DOT_STYLES[type], ...style,
+      position: localPosition,
+      normal: localNormal,
+      type,
+      anchor,
+      creationTime: Game.instance.elapsedTime
+    });
 
-    // Add all dots to the data array
-    for (let i = 0; i < this.dotQueue.length; i++) {
-      if (i >= this.MAX_DOT_COUNT) break;
+    if (this.attachedDots.length > this.MAX_ATTACHED_DOT_COUNT) this.attachedDots.shift(); // Drop the oldest dot
+  }
+
+  /**
+   * Writes a dot's fields into a dot data array.
+   * @param data The dot data array.
+   * @param index The index of the dot in the array.
+   * @param dot The dot.
+   * @param position The dot's world position.
+   * @param normal The dot's world normal.
+   * @param creationTime The time the dot was created.
+   */
+  private writeDot(data: Float32Array, index: number, dot: Dot, position: Vector3, normal: Vector3, creationTime: number): void {
+    const start: number = index * this.DOT_FIELD_COUNT;
+
+    data[start] = position.x;
+    data[start + 1] = position.y;
+    data[start + 2] = position.z;
+
+    data[start + 3] = normal.x;
+    data[start + 4] = normal.y;
+    data[start + 5] = normal.z;
+
+    data[start + 6] = creationTime;
+
+    data[start + 7] = dot.color.x;
+    data[start + 8] = dot.color.y;
+    data[start + 9] = dot.color.z;
+
+    data[start + 10] = dot.size;
+    data[start + 11] = dot.lifetime;
+    data[start + 12] = DOT_TYPES.indexOf(dot.type);
+  }
 
-      const dot: Dot = this.dotQueue[i];
-      const start: number = i * this.DOT_FIELD_COUNT;
+  /** Removes the faded attached dots and writes the rest at their anchors' current transformations. */
+  private updateAttachedDots(): void {
+    const time: number = Game.instance.elapsedTime;
 
-      dotData[start] = dot.position.x;
-      dotData[start + 1] = dot.position.y;
-      dotData[start + 2] = dot.position.z;
+    this.attachedDots = this.attachedDots.filter((dot: AttachedDot) => time - dot.creationTime < dot.lifetime);
+    if (this.attachedDots.length === 0) return;
 
-      dotData[start + 3] = dot.normal.x;
-      dotData[start + 4] = dot.normal.y;
-      dotData[start + 5] = dot.normal.z;
+    const dotData: Float32Array = new Float32Array(this.attachedDots.length * this.DOT_FIELD_COUNT);
 
-      dotData[start + 6] = Game.instance.elapsedTime;
+    this.attachedDots.forEach((dot: AttachedDot, i: number) => {
+      const transformation: Matrix4 = dot.anchor.transformation;
 
-      dotCount++;
+      this.writeDot(dotData, i, dot, transformation.apply(dot.position), transformation.rotation.apply(dot.normal), dot.creationTime);
+    });
+
+    this.modifyBuffer(this.attachedDotBuffer, dotData, 0);
+  }
+
+  /**
+   * Draws instanced dots from a dot buffer with the dot shader in use.
+   * @param buffer The dot buffer.
+   * @param count The number of dots to draw.
+   */
+  private drawDots(buffer: WebGLBuffer, count: number): void {
+    this.dotShader.setAttribBuffer("dotPos", buffer, 3, this.DOT_FIELD_COUNT, 0, 1);
+    this.dotShader.setAttribBuffer("dotNormal", buffer, 3, this.DOT_FIELD_COUNT, 3, 1);
+    this.dotShader.setAttribBuffer("dotTime", buffer, 1, this.DOT_FIELD_COUNT, 6, 1);
+    this.dotShader.setAttribBuffer("dotColor", buffer, 3, this.DOT_FIELD_COUNT, 7, 1);
+    this.dotShader.setAttribBuffer("dotSize", buffer, 1, this.DOT_FIELD_COUNT, 10, 1);
+    this.dotShader.setAttribBuffer("dotLifetime", buffer, 1, this.DOT_FIELD_COUNT, 11, 1);
+    this.dotShader.setAttribBuffer("dotType", buffer, 1, this.DOT_FIELD_COUNT, 12, 1);
+
+    this.gl.drawArraysInstanced(this.gl.TRIANGLE_FAN, 0, this.DOT_RESOLUTION, count);
+  }
+
+  /** Dequeues all dots and writes them into the dot ring buffer, wrapping around to overwrite the oldest dots. */
+  private emptyDotQueue(): void {
+    // Only the newest dots are kept if more are queued than fit in the buffer
+    const dots: Dot[] = this.dotQueue.slice(-this.maxDotCount);
+    const dotData: Float32Array = new Float32Array(dots.length * this.DOT_FIELD_COUNT);
+
+    // Add all dots to the data array
+    for (let i = 0; i < dots.length; i++) {
+      this.writeDot(dotData, i, dots[i], dots[i].position, dots[i].normal, Game.instance.elapsedTime);
     }
 
-    if (this.currentDot + dotCount > this.MAX_DOT_COUNT) this.currentDot = 0; // Reset the current dot to zero if the dots will exceed buffer size
+    // Split the upload at the end of the buffer, writing the rest from its start
+    const endCount: number = Math.min(dots.length, this.maxDotCount - this.currentDot);
 
-    this.modifyBuffer(this.dotBuffer, dotData, this.currentDot * this.DOT_FIELD_COUNT);
+    this.modifyBuffer(this.dotBuffer, dotData.subarray(0, endCount * this.DOT_FIELD_COUNT), this.currentDot * this.DOT_FIELD_COUNT);
+    if (endCount < dots.length) this.modifyBuffer(this.dotBuffer, dotData.subarray(endCount * this.DOT_FIELD_COUNT), 0);
 
-    this.currentDot += dotCount; // Add the dot count to the current dot
-    this.dotCount = Math.min(this.dotCount + dotCount, this.MAX_DOT_COUNT); // Cap dot count at max
+    this.currentDot = (this.currentDot + dots.length) % this.maxDotCount; // Advance the write index around the ring
+    this.dotCount = Math.min(this.dotCount + dots.length, this.maxDotCount); // Cap dot count at max
     this.dotQueue.length = 0; // Clear queue
   }
 
@@ -245,7 +502,7 @@ export class Canvas {
   }
 
   /**
-   * Removes a model from the rendering map.
+   * Removes a model from the rendering map, along with the dots attached to it.
    * @param model The model being removed.
    */
   public unregisterModel(model: RenderModel): void {
@@ -255,6 +512,8 @@ export class Canvas {
     models.delete(model);
 
     if (models.size === 0) this.renderModels.delete(model.mesh);
+
+    this.attachedDots = this.attachedDots.filter((dot: AttachedDot) => dot.anchor !== model); // Remove the dots attached to the model
   }
 
   /** Draws the game models and dots to the canvas. */
@@ -286,40 +545,56 @@ export class Canvas {
     this.dotShader.setUniformMatrix("viewMatrix", viewMatrix);
     this.dotShader.setUniformMatrix("projectionMatrix", projectionMatrix);
     this.dotShader.setUniformFloat("time", Game.instance.elapsedTime);
-    this.dotShader.setUniformVector("lightSource", Game.instance.camera.position);
+    this.dotShader.setUniformFloat("reducedFlashing", this.reducedFlashing ? 1 : 0);
+    this.dotShader.setUniformVector("lightSource", Game.instance.camera.renderPosition);
 
     this.dotShader.setAttribBuffer("vertexPos", this.dotVertexBuffer, 3);
-    this.dotShader.setAttribBuffer("dotPos", this.dotBuffer, 3, this.DOT_FIELD_COUNT, 0, 1);
-    this.dotShader.setAttribBuffer("dotNormal", this.dotBuffer, 3, this.DOT_FIELD_COUNT, 3, 1);
-    this.dotShader.setAttribBuffer("dotTime", this.dotBuffer, 1, this.DOT_FIELD_COUNT, 6, 1);
 
-    this.gl.drawArraysInstanced(this.gl.TRIANGLE_FAN, 0, this.DOT_RESOLUTION, this.dotCount);
+    this.drawDots(this.dotBuffer, this.dotCount);
+
+    // Draw the attached dots after moving them with their models
+    this.updateAttachedDots();
+    if (this.attachedDots.length > 0) this.drawDots(this.attachedDotBuffer, this.attachedDots.length);
   }
 
-  /** Draws the end screen to the canvas. */
-  private renderEndScreen(): void {
-    this.endScreenShader.use();
-    this.endScreenShader.setAttribBuffer("vertexPos", this.screenRectBuffer, 2);
-    this.endScreenShader.setUniformFloat("time", Game.instance.elapsedTime);
+  /** Eases the static intensity towards full on the end screen, or partial while being chased. */
+  private updateStatic(): void {
+    const time: number = Game.instance.elapsedTime;
+    const deltaTime: number = Math.max(time - this.lastRenderTime, 0); // Elapsed time restarts with each run
+    this.lastRenderTime = time;
 
-    this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+    if (this._endScreenActive) {
+      this.staticIntensity = 1;
+      return;
+    }
+
+    const target: number = this.effectLevels.chase * this.CHASE_STATIC_INTENSITY;
+
+    this.staticIntensity += (target - this.staticIntensity) * (1 - Math.exp(-this.STATIC_EASE_RATE * deltaTime));
+    if (this.staticIntensity < 0.001) this.staticIntensity = 0; // Skip the pass once faded out
   }
 
-  /** Draw everything to the canvas depending on the game state. */
+  /** Draw the scene into the scene target depending on the game state, then post-process it to the screen. */
   public render(): void {
-    // Clear the screen
+    this.postProcessor.sceneTarget.bind();
+
+    // Clear the scene
     this.gl.clearColor(0, 0, 0, 1);
     this.gl.clear(this.gl.COLOR_BUFFER_BIT | this.gl.DEPTH_BUFFER_BIT | this.gl.STENCIL_BUFFER_BIT);
 
-    if (this._endScreenActive) this.renderEndScreen(); // Render the end screen if it is active
-    else this.renderGame(); // Render the game otherwise
+    if (!this._endScreenActive) this.renderGame(); // Render the game unless the end screen's static covers it
+
+    this.updateStatic();
+    this.postProcessor.render();
   }
 
+  /** Clears the dot buffer, resizing it to the dot budget. */
   public reset(): void {
-    this.clearBuffer(this.dotBuffer, this.MAX_DOT_COUNT * this.DOT_FIELD_COUNT); // Clear the dot buffer
+    this.clearBuffer(this.dotBuffer, this.maxDotCount * this.DOT_FIELD_COUNT); // Clear the dot buffer
 
     // Reset the dot counts
     this.currentDot = 0;
     this.dotCount = 0;
+    this.attachedDots = [];
   }
 }
\ No newline at end of file
@@ -0,0 +1,278 @@
+import { Game } from "../core/game.js";
+import { ShaderDefines, ShaderProgram } from "./shaderprogram.js";
+
+/** Represents an offscreen framebuffer rendering into a color texture, sized relative to the canvas. */
+export class RenderTarget {
+  private framebuffer: WebGLFramebuffer;
+  private _texture: WebGLTexture;
+  private depthBuffer?: WebGLRenderbuffer;
+
+  private _width: number = 1;
+  private _height: number = 1;
+
+  /**
+   * Creates the render target.
+   * @param gl The webgl context.
+   * @param scale The size of the target relative to the canvas.
+   * @param depth Whether or not the target has a depth buffer.
+   */
+  constructor(private gl: WebGL2RenderingContext, private scale: number = 1, depth: boolean = false) {
+    const framebuffer: WebGLFramebuffer | null = gl.createFramebuffer();
+    const texture: WebGLTexture | null = gl.createTexture();
+    if (!framebuffer || !texture) throw new Error("Failed to create render target.");
+
+    this.framebuffer = framebuffer;
+    this._texture = texture;
+
+    // Sample with linear filtering and clamp so full screen passes never wrap around the edges
+    gl.bindTexture(gl.TEXTURE_2D, texture);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+    if (depth) {
+      const depthBuffer: WebGLRenderbuffer | null = gl.createRenderbuffer();
+      if (!depthBuffer) throw new Error("Failed to create depth buffer.");
+
+      this.depthBuffer = depthBuffer;
+    }
+  }
+
+  public get texture(): WebGLTexture {
+    return this._texture;
+  }
+
+  public get width(): number {
+    return this._width;
+  }
+
+  public get height(): number {
+    return this._height;
+  }
+
+  /**
+   * Resizes the target's texture and depth buffer to its scale of the canvas size, clearing them.
+   * @param width The canvas width.
+   * @param height The canvas height.
+   */
+  public resize(width: number, height: number): void {
+    this._width = Math.max(Math.round(width * this.scale), 1);
+    this._height = Math.max(Math.round(height * this.scale), 1);
+
+    this.gl.bindTexture(this.gl.TEXTURE_2D, this._texture);
+    this.gl.texImage2D(this.gl.TEXTURE_2D, 0, this.gl.RGBA8, this._width, this._height, 0, this.gl.RGBA, this.gl.UNSIGNED_BYTE, null);
+
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+    this.gl.framebufferTexture2D(this.gl.FRAMEBUFFER, this.gl.COLOR_ATTACHMENT0, this.gl.TEXTURE_2D, this._texture, 0);
+
+    if (this.depthBuffer) {
+      this.gl.bindRenderbuffer(this.gl.RENDERBUFFER, this.depthBuffer);
+      this.gl.renderbufferStorage(this.gl.RENDERBUFFER, this.gl.DEPTH_COMPONENT24, this._width, this._height);
+      this.gl.framebufferRenderbuffer(this.gl.FRAMEBUFFER, this.gl.DEPTH_ATTACHMENT, this.gl.RENDERBUFFER, this.depthBuffer);
+    }
+
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
+  }
+
+  /** Binds the target's framebuffer for drawing and sets the viewport to its size. */
+  public bind(): void {
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, this.framebuffer);
+    this.gl.viewport(0, 0, this._width, this._height);
+  }
+
+  /** Binds the target's framebuffer for reading, used when blitting it. */
+  public bindRead(): void {
+    this.gl.bindFramebuffer(this.gl.READ_FRAMEBUFFER, this.framebuffer);
+  }
+}
+
+/** Defines a full screen pass drawing a shader from input textures. */
+export interface PostPassInfo {
+  name: string,
+  /** The path of the pass's fragment shader. */
+  fragPath: string,
+  defines?: ShaderDefines,
+  /**
+   * The target read by each sampler uniform of the program, by uniform name.
+   * The "previous" target is the output of the last pass in the main chain, starting with the scene.
+   */
+  inputs: Record<string, string>,
+  /** The named target to draw into, or undefined to draw into the main chain, the last chain pass drawing to the screen. */
+  output?: string,
+  /** The names of the program's uniforms other than its inputs. */
+  uniforms?: string[],
+  /** Determines whether or not the pass runs this frame, always running if undefined. */
+  enabled?: () => boolean,
+  /** Sets the program's other uniforms before drawing. */
+  setUniforms?: (program: ShaderProgram) => void
+}
+
+/** Represents a pass and the shader program it draws with. */
+interface PostPass extends PostPassInfo {
+  program: ShaderProgram
+}
+
+/** Runs the ordered post-processing passes over the scene, rendering the result to the screen. */
+export class PostProcessor {
+  private readonly VERTEX_PATH: string = "res/shaders/postVertex.glsl";
+
+  /** The target the scene is drawn into before post-processing. */
+  public readonly sceneTarget: RenderTarget;
+
+  /** The two targets the main chain alternates drawing into. */
+  private chainTargets: [RenderTarget, RenderTarget];
+  private targets: Map<string, RenderTarget> = new Map();
+  private passes: PostPass[] = [];
+
+  private screenRectBuffer: WebGLBuffer;
+
+  private width: number = 1;
+  private height: number = 1;
+
+  /**
+   * Creates the post-processor, its scene and chain targets and the full screen rectangle.
+   * @param gl The webgl context.
+   */
+  constructor(private gl: WebGL2RenderingContext) {
+    this.sceneTarget = new RenderTarget(gl, 1, true);
+    this.chainTargets = [new RenderTarget(gl), new RenderTarget(gl)];
+
+    const buffer: WebGLBuffer | null = gl.createBuffer();
+    if (!buffer) throw new Error("Failed to create buffer.");
+
+    this.screenRectBuffer = buffer;
+
+    gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+    gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([
+      -1, -1,
+      1, -1,
+      -1, 1,
+      1, 1
+    ]), gl.STATIC_DRAW);
+  }
+
+  /** Loads every pass's shaders and finds their attribute and uniform locations. */
+  public async init(): Promise<void> {
+    await Promise.all(this.passes.map((pass: PostPass) => {
+      return Game.instance.loadTracker.track(pass.program.initShaders(this.VERTEX_PATH, pass.fragPath, pass.defines));
+    }));
+
+    for (const pass of this.passes) {
+      pass.program.use();
+      pass.program.createAttrib("vertexPos");
+
+      for (const uniform of Object.keys(pass.inputs)) pass.program.createUniform(uniform);
+      for (const uniform of pass.uniforms || []) pass.program.createUniform(uniform);
+    }
+  }
+
+  /** Returns every pass's shader program. */
+  public get programs(): ShaderProgram[] {
+    return this.passes.map((pass: PostPass) => pass.program);
+  }
+
+  /**
+   * Adds a named target for passes to draw into and read from.
+   * @param name The target name.
+   * @param scale The size of the target relative to the canvas.
+   */
+  public addTarget(name: string, scale: number = 1): void {
+    if (name === "previous" || this.targets.has(name)) throw new Error(`Render target already exists: ${name}`);
+
+    const target: RenderTarget = new RenderTarget(this.gl, scale);
+    target.resize(this.width, this.height);
+
+    this.targets.set(name, target);
+  }
+
+  /**
+   * Adds a pass to run after every pass added before it, its shaders being loaded on init.
+   * @param info The pass info.
+   */
+  public addPass(info: PostPassInfo): void {
+    for (const uniform of Object.keys(info.inputs)) {
+      const input: string = info.inputs[uniform];
+
+      if (input !== "previous" && !this.targets.has(input)) throw new Error(`Pass ${info.name} reads a missing render target: ${input}`);
+    }
+
+    if (info.output !== undefined && !this.targets.has(info.output)) throw new Error(`Pass ${info.name} draws to a missing render target: ${info.output}`);
+
+    this.passes.push({ ...info, program: new ShaderProgram(this.gl) });
+  }
+
+  /**
+   * Resizes every target to the canvas size.
+   * @param width The canvas width.
+   * @param height The canvas height.
+   */
+  public resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+
+    this.sceneTarget.resize(width, height);
+    for (const target of this.chainTargets) target.resize(width, height);
+    for (const target of this.targets.values()) target.resize(width, height);
+  }
+
+  /** Runs every enabled pass, drawing the final pass of the main chain to the screen. */
+  public render(): void {
+    const passes: PostPass[] = this.passes.filter((pass: PostPass) => !pass.enabled || pass.enabled());
+    const chainPasses: PostPass[] = passes.filter((pass: PostPass) => pass.output === undefined);
+    const lastChainPass: PostPass | undefined = chainPasses[chainPasses.length - 1];
+
+    let previous: RenderTarget = this.sceneTarget;
+    let chainIndex: number = 0;
+
+    this.gl.disable(this.gl.DEPTH_TEST);
+
+    for (const pass of passes) {
+      let output: RenderTarget | undefined;
+
+      if (pass.output !== undefined) output = this.targets.get(pass.output);
+      else if (pass !== lastChainPass) output = this.chainTargets[chainIndex];
+
+      // Draw into the output target, or the screen if there is none
+      if (output) {
+        output.bind();
+
+      } else {
+        this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null);
+        this.gl.viewport(0, 0, this.width, this.height);
+      }
+
+      pass.program.use();
+
+      // Bind each input target's texture to its sampler uniform
+      Object.keys(pass.inputs).forEach((uniform: string, unit: number) => {
+        const input: string = pass.inputs[uniform];
+        const target: RenderTarget = input === "previous" ? previous : this.targets.get(input)!;
+
+        this.gl.activeTexture(this.gl.TEXTURE0 + unit);
+        this.gl.bindTexture(this.gl.TEXTURE_2D, target.texture);
+        pass.program.setUniformInt(uniform, unit);
+      });
+
+      if (pass.setUniforms) pass.setUniforms(pass.program);
+
+      pass.program.setAttribBuffer("vertexPos", this.screenRectBuffer, 2);
+      this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+
+      // Continue the main chain from the pass's output
+      if (pass.output === undefined && output) {
+        previous = output;
+        chainIndex = 1 - chainIndex;
+      }
+    }
+
+    // Copy the scene straight to the screen if no chain pass ran
+    if (!lastChainPass) {
+      this.sceneTarget.bindRead();
+      this.gl.bindFramebuffer(this.gl.DRAW_FRAMEBUFFER, null);
+      this.gl.blitFramebuffer(0, 0, this.width, this.height, 0, 0, this.width, this.height, this.gl.COLOR_BUFFER_BIT, this.gl.NEAREST);
+    }
+
+    this.gl.enable(this.gl.DEPTH_TEST);
+  }
+}
@@ -2,61 +2,246 @@ import { Matrix4 } from "../math/matrix4.js";
 import { Util } from "../util/util.js";
 import { Vector3 } from "../math/vector3.js";
 
+/** The values defined in a program's shaders by name, numbers being defined as floats. */
+export type ShaderDefines = Record<string, number | Vector3 | string>;
+
+/** A file loaded into a shader's source, numbered by its index for #line directives. */
+interface ShaderFile {
+  path: string,
+  /** The lines of the file as written, before its includes are resolved. */
+  lines: string[]
+}
+
 export class ShaderProgram {
+  /** The number of source lines shown on each side of a line with a compile error. */
+  private readonly ERROR_CONTEXT_LINES: number = 2;
+
   private program: WebGLProgram;
   private vertShader: WebGLShader;
   private fragShader: WebGLShader;
 
+  private vertPath: string;
+  private fragPath: string;
+  private defines: ShaderDefines = {};
+  /** The sources of the last build attempt, used to detect changed files. */
+  private vertSource: string;
+  private fragSource: string;
+  /** The files making up the shaders, by their #line source string numbers. */
+  private vertFiles: ShaderFile[];
+  private fragFiles: ShaderFile[];
+
   /** Map of attribute names and their associate locations */
   private attribLocations: Map<string, number> = new Map();
   /** Map of uniform names and their associated locations */
   private uniformLocations: Map<string, WebGLUniformLocation> = new Map();
 
-  constructor(private gl: WebGL2RenderingContext) {
-    // Initialize webgl program
-    const program: WebGLProgram | null = gl.createProgram();
-    if (program === null) throw new Error("Failed to create program.");
+  constructor(private gl: WebGL2RenderingContext) {}
 
-    this.program = program;
+  /** Returns the paths of the program's vertex and fragment shaders. */
+  public get paths(): [string, string] {
+    return [this.vertPath, this.fragPath];
   }
 
   /**
    * Initializes and loads the program with its shaders.
    * @param vertPath The path to the program"s vertex shader.
    * @param fragPath The path to the program"s fragment shader.
+   * @param defines The values to define in both shaders.
    */
-  public async initShaders(vertPath: string, fragPath: string) {
+  public async initShaders(vertPath: string, fragPath: string, defines: ShaderDefines = {}) {
+    this.vertPath = vertPath;
+    this.fragPath = fragPath;
+    this.defines = defines;
+
     // Load and await vertex and fragment shaders
+    const [vertSource, fragSource]: [string, string] = await this.loadSources();
+
+    this.build(vertSource, fragSource);
+  }
+
+  /**
+   * Re-fetches the program's shaders and rebuilds it if either changed, keeping the previous program if the build fails.
+   * @returns A promise returning whether or not the shaders changed and were rebuilt.
+   */
+  public async reload(): Promise<boolean> {
+    const [vertSource, fragSource]: [string, string] = await this.loadSources({ cache: "no-store" });
+
+    if (vertSource === this.vertSource && fragSource === this.fragSource) return false;
+
+    this.build(vertSource, fragSource);
+
+    return true;
+  }
+
+  /**
+   * Loads and preprocesses the sources of the program's shaders.
+   * @param init The fetch options.
+   * @returns A promise returning the vertex and fragment sources.
+   */
+  private async loadSources(init?: RequestInit): Promise<[string, string]> {
+    const vertFiles: ShaderFile[] = [];
+    const fragFiles: ShaderFile[] = [];
+
     const [vertSource, fragSource]: [string, string] = await Promise.all([
-      (await Util.loadFile(vertPath)).text(),
-      (await Util.loadFile(fragPath)).text()
+      this.loadWithIncludes(this.vertPath, vertFiles, init),
+      this.loadWithIncludes(this.fragPath, fragFiles, init)
     ]);
 
-    // Create vertex and fragment shaders and link program
-    this.vertShader = this.createShader(this.gl.VERTEX_SHADER, vertSource);
-    this.fragShader = this.createShader(this.gl.FRAGMENT_SHADER, fragSource);
+    this.vertFiles = vertFiles;
+    this.fragFiles = fragFiles;
 
-    this.gl.linkProgram(this.program);
+    return [this.insertDefines(vertSource), this.insertDefines(fragSource)];
+  }
 
-    // Error checking
-    if (!this.gl.getProgramParameter(this.program, this.gl.LINK_STATUS)) {
-      console.error("Failed to link shader program: " + this.gl.getProgramInfoLog(this.program));
+  /**
+   * Loads a shader file, replacing each #include "path" line with the included file, relative to the including file.
+   * Each included file is wrapped in #line directives so compile errors keep the line numbers of the file they are in.
+   * @param path The shader file path.
+   * @param files The files already loaded, each only being included once.
+   * @param init The fetch options.
+   * @returns A promise returning the source with its includes resolved.
+   */
+  private async loadWithIncludes(path: string, files: ShaderFile[], init?: RequestInit): Promise<string> {
+    const sourceNumber: number = files.length;
+    const file: ShaderFile = { path, lines: [] };
+
+    files.push(file);
+
+    const source: string = await (await Util.loadFile(path, init)).text();
+    const directory: string = path.slice(0, path.lastIndexOf("/") + 1);
+    const lines: string[] = source.split("\n");
+
+    file.lines = lines.slice();
+
+    for (let i = 0; i < lines.length; i++) {
+      const match: RegExpMatchArray | null = lines[i].match(/^\s*#include\s+"([^"]+)"/);
+      if (!match) continue;
+
+      const includePath: string = directory + match[1];
+
+      if (files.some((loaded: ShaderFile) => loaded.path === includePath)) {
+        lines[i] = "";
+
+        continue;
+      }
+
+      // Number the included lines from the start of their own file, then resume this file after the include line
+      const includeNumber: number = files.length;
+      const included: string = await this.loadWithIncludes(includePath, files, init);
+
+      lines[i] = `#line 1 ${includeNumber}\n${included}\n#line ${i + 2} ${sourceNumber}`;
     }
 
-    this.gl.validateProgram(this.program);
+    return lines.join("\n");
+  }
+
+  /**
+   * Inserts the program's defines after a shader's #version line, followed by a #line directive restoring the file's line numbers.
+   * @param source The shader source.
+   * @returns The source with the defines.
+   */
+  private insertDefines(source: string): string {
+    const defineLines: string[] = Object.keys(this.defines).map((name: string) => {
+      return `#define ${name} ${this.formatDefine(this.defines[name])}\n`;
+    });
+
+    const versionEnd: number = source.startsWith("#version") ? source.indexOf("\n") + 1 : 0;
+    const lineDirective: string = `#line ${versionEnd > 0 ? 2 : 1} 0\n`;
+
+    return source.slice(0, versionEnd) + defineLines.join("") + lineDirective + source.slice(versionEnd);
+  }
+
+  /**
+   * Formats a define value as glsl, numbers as floats and vectors as vec3s.
+   * @param value The define value.
+   * @returns The glsl value.
+   */
+  private formatDefine(value: number | Vector3 | string): string {
+    const formatFloat = (n: number): string => Number.isInteger(n) ? n.toFixed(1) : String(n);
+
+    if (typeof value === "number") return formatFloat(value);
+    if (value instanceof Vector3) return `vec3(${formatFloat(value.x)}, ${formatFloat(value.y)}, ${formatFloat(value.z)})`;
+
+    return value;
+  }
+
+  /**
+   * Compiles and links a new program from shader sources, replacing the current program only if it succeeds.
+   * @param vertSource The vertex shader source.
+   * @param fragSource The fragment shader source.
+   */
+  private build(vertSource: string, fragSource: string): void {
+    this.vertSource = vertSource;
+    this.fragSource = fragSource;
+
+    // Initialize webgl program
+    const program: WebGLProgram | null = this.gl.createProgram();
+    if (program === null) throw new Error("Failed to create program.");
+
+    const shaders: WebGLShader[] = [];
+    let attribLocations: Map<string, number>;
+    let uniformLocations: Map<string, WebGLUniformLocation>;
+
+    try {
+      // Create vertex and fragment shaders and link program
+      shaders.push(this.createShader(program, this.gl.VERTEX_SHADER, vertSource, this.vertFiles));
+      shaders.push(this.createShader(program, this.gl.FRAGMENT_SHADER, fragSource, this.fragFiles));
 
-    if (!this.gl.getProgramParameter(this.program, this.gl.VALIDATE_STATUS)) {
-      console.error("Failed to validate shader program: " + this.gl.getProgramInfoLog(this.program));
+      this.gl.linkProgram(program);
+
+      // Error checking
+      if (!this.gl.getProgramParameter(program, this.gl.LINK_STATUS)) {
+        throw new Error(`Failed to link shader program ${this.vertPath} + ${this.fragPath}: ` + this.gl.getProgramInfoLog(program));
+      }
+
+      this.gl.validateProgram(program);
+
+      if (!this.gl.getProgramParameter(program, this.gl.VALIDATE_STATUS)) {
+        console.error("Failed to validate shader program: " + this.gl.getProgramInfoLog(program));
+      }
+
+      // Find the locations of the attributes and uniforms already created in the new program
+      attribLocations = this.findLocations(this.attribLocations, (name: string) => this.findAttribLocation(program, name));
+      uniformLocations = this.findLocations(this.uniformLocations, (name: string) => this.findUniformLocation(program, name));
+
+    } catch (error) {
+      for (const shader of shaders) this.gl.deleteShader(shader);
+      this.gl.deleteProgram(program);
+
+      throw error;
     }
+
+    if (this.program) this.destroy(); // Replace the previous program
+
+    this.program = program;
+    [this.vertShader, this.fragShader] = shaders;
+    this.attribLocations = attribLocations;
+    this.uniformLocations = uniformLocations;
+  }
+
+  /**
+   * Finds the locations of every name in an existing location map.
+   * @param locations The existing location map.
+   * @param find The function finding the location of a name.
+   * @returns The new location map.
+   */
+  private findLocations<T>(locations: Map<string, T>, find: (name: string) => T): Map<string, T> {
+    const newLocations: Map<string, T> = new Map();
+
+    for (const name of locations.keys()) newLocations.set(name, find(name));
+
+    return newLocations;
   }
 
   /**
    * Creates a shader based on the given type and source code.
+   * @param program The program to attach the shader to.
    * @param type The shader type (vertex or fragment).
    * @param source The shader source code.
+   * @param files The files the source was loaded from, used in error messages.
    * @returns The created webgl shader.
    */
-  private createShader(type: number, source: string): WebGLShader {
+  private createShader(program: WebGLProgram, type: number, source: string, files: ShaderFile[]): WebGLShader {
     // Initialize webgl shader
     const shader: WebGLShader | null = this.gl.createShader(type);
     if (shader === null) throw new Error("Failed to create shader.");
@@ -67,27 +252,88 @@ export class ShaderProgram {
 
     // Error checking
     if (!this.gl.getShaderParameter(shader, this.gl.COMPILE_STATUS)) {
+      const log: string = this.gl.getShaderInfoLog(shader) || ""; // Read the log before the shader is deleted
       this.gl.deleteShader(shader);
 
-      throw new Error(`Error compiling ${type == this.gl.VERTEX_SHADER ? "vertex" : "fragment"} shader: ` + this.gl.getShaderInfoLog(shader));
+      throw new Error(`Error compiling ${type == this.gl.VERTEX_SHADER ? "vertex" : "fragment"} shader ${files[0].path}:\n` + this.formatCompileLog(log, files));
     }
 
-    this.gl.attachShader(this.program, shader); // Attach shader to the program
+    this.gl.attachShader(program, shader); // Attach shader to the program
 
     return shader;
   }
 
   /**
-   * Initialize the attribute and its location.
+   * Formats a compile log, following each error with the lines around it in the file it occurred in.
+   * @param log The shader info log.
+   * @param files The files the shader was loaded from, by their source string numbers.
+   * @returns The formatted log.
+   */
+  private formatCompileLog(log: string, files: ShaderFile[]): string {
+    const output: string[] = [];
+
+    for (const logLine of log.split("\n")) {
+      if (logLine.trim() === "") continue;
+
+      output.push(logLine);
+
+      // Errors are formatted as "ERROR: <source>:<line>: <message>"
+      const match: RegExpMatchArray | null = logLine.match(/^\w+: (\d+):(\d+):/);
+      if (!match) continue;
+
+      const file: ShaderFile | undefined = files[parseInt(match[1])];
+      if (!file) continue;
+
+      const sourceLines: string[] = file.lines;
+      const errorLine: number = parseInt(match[2]);
+
+      output.push(`  in ${file.path}`);
+
+      const start: number = Math.max(errorLine - this.ERROR_CONTEXT_LINES, 1);
+      const end: number = Math.min(errorLine + this.ERROR_CONTEXT_LINES, sourceLines.length);
+
+      for (let line = start; line <= end; line++) {
+        const marker: string = line === errorLine ? ">" : " ";
+
+        output.push(`${marker} ${String(line).padStart(4)} | ${sourceLines[line - 1]}`);
+      }
+    }
+
+    return output.join("\n");
+  }
+
+  /**
+   * Finds the location of an attribute in a program.
+   * @param program The program.
    * @param name The attribute name.
+   * @returns The attribute location.
    */
-  public createAttrib(name: string): void {
-    // Get location of attribute
-    const location: number = this.gl.getAttribLocation(this.program, name);
+  private findAttribLocation(program: WebGLProgram, name: string): number {
+    const location: number = this.gl.getAttribLocation(program, name);
     if (location < 0) throw new Error(`Attribute "${name}" not found.`);
 
-    // Set attribute location
-    this.attribLocations.set(name, location);
+    return location;
+  }
+
+  /**
+   * Finds the location of a uniform in a program.
+   * @param program The program.
+   * @param name The uniform name.
+   * @returns The uniform location.
+   */
+  private findUniformLocation(program: WebGLProgram, name: string): WebGLUniformLocation {
+    const location: WebGLUniformLocation | null = this.gl.getUniformLocation(program, name);
+    if (!location) throw new Error(`Uniform "${name}" not found.`);
+
+    return location;
+  }
+
+  /**
+   * Initialize the attribute and its location.
+   * @param name The attribute name.
+   */
+  public createAttrib(name: string): void {
+    this.attribLocations.set(name, this.findAttribLocation(this.program, name)); // Set attribute location
   }
 
   /**
@@ -121,12 +367,7 @@ export class ShaderProgram {
    * @param name The uniform name.
    */
   public createUniform(name: string): void {
-    // Get location of uniform
-    const location: WebGLUniformLocation | null = this.gl.getUniformLocation(this.program, name);
-    if (!location) throw new Error(`Uniform "${name}" not found.`);
-
-    // Set location of uniform
-    this.uniformLocations.set(name, location);
+    this.uniformLocations.set(name, this.findUniformLocation(this.program, name)); // Set location of uniform
   }
 
   /**
@@ -159,6 +400,15 @@ export class ShaderProgram {
     this.gl.uniform3fv(this.getUniformLocation(name), new Float32Array([vector.x, vector.y, vector.z]));
   }
 
+  /**
+   * Sets an integer uniform, used for sampler texture units.
+   * @param name The uniform name.
+   * @param value The integer value.
+   */
+  public setUniformInt(name: string, value: number): void {
+    this.gl.uniform1i(this.getUniformLocation(name), value);
+  }
+
   /**
    * Sets a float uniform.
    * @param name The uniform name.
@@ -0,0 +1,59 @@
+import { GameEvent } from "../util/gameevent.js";
+import { ShaderProgram } from "./shaderprogram.js";
+
+/** Polls the shader files of programs in dev mode, rebuilding a program whenever one of its files changes. */
+export class ShaderReloader {
+  private readonly POLL_INTERVAL: number = 1000;
+
+  /** Fired with the combined error messages of the failed programs whenever they change, or undefined once none fail. */
+  public readonly errorsChanged: GameEvent = new GameEvent();
+
+  /** The error message of every program whose latest build failed. */
+  private errors: Map<ShaderProgram, string> = new Map();
+  private errorText?: string;
+
+  private interval?: ReturnType<typeof setInterval>;
+  private polling: boolean = false;
+
+  /**
+   * Creates the reloader.
+   * @param programs The programs to reload.
+   */
+  constructor(private programs: ShaderProgram[]) {}
+
+  /** Starts polling the shader files. */
+  public start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(() => this.poll(), this.POLL_INTERVAL);
+  }
+
+  /** Stops polling the shader files. */
+  public stop(): void {
+    clearInterval(this.interval);
+    delete this.interval;
+  }
+
+  /** Reloads every program whose files changed, keeping the previous program of any that fail. */
+  private async poll(): Promise<void> {
+    if (this.polling) return; // Skip if the last poll has not finished
+    this.polling = true;
+
+    for (const program of this.programs) {
+      try {
+        if (await program.reload()) this.errors.delete(program);
+      } catch (error) {
+        this.errors.set(program, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    this.polling = false;
+
+    const errorText: string | undefined = this.errors.size > 0 ? Array.from(this.errors.values()).join("\n\n") : undefined;
+
+    if (errorText !== this.errorText) {
+      this.errorText = errorText;
+      this.errorsChanged.fire(errorText);
+    }
+  }
+}
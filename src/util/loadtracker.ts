@@ -0,0 +1,70 @@
+import { EventConnection, GameEvent } from "./gameevent.js";
+import { Util } from "./util.js";
+
+/** Tracks the progress of a loading attempt, counting loaded items and downloaded bytes. */
+export class LoadTracker {
+  /** Fired whenever an item is added or completed or more bytes are downloaded. */
+  public readonly progressed: GameEvent = new GameEvent();
+
+  private _totalItems: number = 0;
+  private _completedItems: number = 0;
+  private _loadedBytes: number = 0;
+
+  public get totalItems(): number {
+    return this._totalItems;
+  }
+
+  public get completedItems(): number {
+    return this._completedItems;
+  }
+
+  public get loadedBytes(): number {
+    return this._loadedBytes;
+  }
+
+  /** Returns the fraction of items completed, from 0 to 1. */
+  public get progress(): number {
+    return this._totalItems > 0 ? this._completedItems / this._totalItems : 0;
+  }
+
+  /**
+   * Runs a loading attempt from zero progress, counting every byte downloaded until it settles.
+   * @param load The function starting the loads.
+   * @returns A promise, resolving once everything loads or rejecting with the first error.
+   */
+  public async run(load: () => Promise<unknown>): Promise<void> {
+    this._totalItems = 0;
+    this._completedItems = 0;
+    this._loadedBytes = 0;
+
+    const byteConnection: EventConnection = Util.bytesLoaded.connect((bytes: number) => {
+      this._loadedBytes += bytes;
+      this.progressed.fire();
+    });
+
+    try {
+      await load();
+
+    } finally {
+      byteConnection.disconnect();
+    }
+  }
+
+  /**
+   * Counts a load as an item of the current attempt, completing it once it resolves.
+   * @param promise The load promise.
+   * @returns The same load promise.
+   */
+  public track<T>(promise: Promise<T>): Promise<T> {
+    this._totalItems++;
+    this.progressed.fire();
+
+    promise.then(() => {
+      this._completedItems++;
+      this.progressed.fire();
+
+    }, () => {}); // Failures are reported by whoever awaits the load
+
+    return promise;
+  }
+}
@@ -0,0 +1,79 @@
+/** Generates deterministic pseudorandom numbers from a seed, so that runs can be reproduced. */
+export class Random {
+  private _seed: number;
+  private state: number;
+
+  /**
+   * Creates a generator from a seed.
+   * @param seed The 32 bit unsigned integer seed.
+   */
+  constructor(seed: number) {
+    this._seed = this.state = seed >>> 0;
+  }
+
+  /**
+   * Creates a new seed for runs which were not given one.
+   * @returns The 32 bit unsigned integer seed.
+   */
+  public static createSeed(): number {
+    return Math.floor(Math.random() * 2 ** 32) >>> 0;
+  }
+
+  /**
+   * Parses a seed from text, using the number itself if the text is an integer and a hash of the text if otherwise.
+   * @param text The seed text.
+   * @returns The 32 bit unsigned integer seed.
+   */
+  public static parseSeed(text: string): number {
+    const trimmed: string = text.trim();
+
+    if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+
+    // FNV-1a hash of the text
+    let hash: number = 0x811c9dc5;
+
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+
+    return hash >>> 0;
+  }
+
+  /** Returns the seed the generator was last reset with. */
+  public get seed(): number {
+    return this._seed;
+  }
+
+  /**
+   * Restarts the sequence from a seed.
+   * @param seed The 32 bit unsigned integer seed.
+   */
+  public reset(seed: number): void {
+    this._seed = this.state = seed >>> 0;
+  }
+
+  /**
+   * Generates the next number in the sequence (mulberry32).
+   * @returns A number from 0 up to but not including 1.
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+
+    let t: number = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  }
+
+  /**
+   * Generates a number within a range.
+   * @param min The minimum value.
+   * @param max The maximum value.
+   * @returns A number from the minimum up to but not including the maximum.
+   */
+  public range(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+}
@@ -0,0 +1,89 @@
+import { Game } from "../core/game.js";
+import { GameEvent } from "./gameevent.js";
+
+/** Defines the hooks called by a state machine for one of its states. */
+export interface State {
+  enter?: () => void,
+  update?: (deltaTime: number) => void,
+  exit?: () => void
+}
+
+/** Handles a set of states, the transitions declared between them and calling their hooks. */
+export class StateMachine<T extends string> {
+  /** Fired with the new state and the previous state after every transition. */
+  public readonly transitioned: GameEvent = new GameEvent();
+
+  private _state: T;
+  private enterTime: number = 0;
+
+  /**
+   * Creates a state machine.
+   * @param states The hooks of each state.
+   * @param transitions The states each state is allowed to transition to.
+   * @param initialState The state to start in.
+   */
+  constructor(
+    private states: Record<T, State>,
+    private transitions: Record<T, T[]>,
+    private initialState: T
+  ) {
+    this._state = initialState;
+  }
+
+  public get state(): T {
+    return this._state;
+  }
+
+  /** Returns the time passed since the current state was entered. */
+  public get timeInState(): number {
+    return Game.instance.elapsedTime - this.enterTime;
+  }
+
+  /** Enters the initial state. */
+  public start(): void {
+    this._state = this.initialState;
+    this.enterTime = Game.instance.elapsedTime;
+
+    const enter: (() => void) | undefined = this.states[this._state].enter;
+    if (enter) enter();
+  }
+
+  /**
+   * Determines whether or not the current state declares a transition to another state.
+   * @param state The other state.
+   * @returns True if the transition is declared, false if otherwise.
+   */
+  public canTransition(state: T): boolean {
+    return this.transitions[this._state].includes(state);
+  }
+
+  /**
+   * Exits the current state and enters another, firing the transitioned event.
+   * @param state The state to enter.
+   */
+  public transition(state: T): void {
+    if (!this.canTransition(state)) throw new Error(`Transition from "${this._state}" to "${state}" is not declared.`);
+
+    const previous: T = this._state;
+    const exit: (() => void) | undefined = this.states[previous].exit;
+    const enter: (() => void) | undefined = this.states[state].enter;
+
+    if (exit) exit();
+
+    this._state = state;
+    this.enterTime = Game.instance.elapsedTime;
+
+    if (enter) enter();
+
+    this.transitioned.fire(state, previous);
+  }
+
+  /**
+   * Calls the update hook of the current state.
+   * @param deltaTime The time passed.
+   */
+  public update(deltaTime: number): void {
+    const update: ((deltaTime: number) => void) | undefined = this.states[this._state].update;
+    if (update) update(deltaTime);
+  }
+}
@@ -1,16 +1,55 @@
+import { GameEvent } from "./gameevent.js";
+
 /** Stores widely and commonly used utility functions. */
 export class Util {
+  /** Fired with the byte count of every chunk downloaded by loaded files. */
+  public static readonly bytesLoaded: GameEvent = new GameEvent();
+
   /**
-   * Loads a file from its path.
+   * Loads a file from its path, reporting its downloaded bytes as its body is read.
    * @param path The path to the shader file.
+   * @param init The fetch options.
    * @returns A promise returning the file.
    */
-  public static async loadFile(path: string): Promise<Response> {
-    const response: Response = await fetch(path);
+  public static async loadFile(path: string, init?: RequestInit): Promise<Response> {
+    const response: Response = await fetch(path, init);
     
-    if (!response.ok) throw new Error(`Failed to load file: ${path}`);
+    if (!response.ok) throw new Error(`Failed to load file: ${path} (${response.status} ${response.statusText})`);
+    if (!response.body) return response;
+
+    const reader: ReadableStreamDefaultReader<Uint8Array> = response.body.getReader();
+
+    // Pass the body through a stream that counts each chunk
+    const stream: ReadableStream<Uint8Array> = new ReadableStream({
+      async pull(controller: ReadableStreamDefaultController<Uint8Array>) {
+        const { done, value } = await reader.read();
+
+        if (done) {
+          controller.close();
+          return;
+        }
+
+        Util.bytesLoaded.fire(value.byteLength);
+        controller.enqueue(value);
+      }
+    });
+
+    return new Response(stream, { status: response.status, statusText: response.statusText, headers: response.headers });
+  }
+
+  /**
+   * Waits for every promise to settle, unlike Promise.all which rejects as soon as one fails.
+   * @param promises The promises.
+   * @returns A promise, resolving once all resolve or rejecting with the first error once all settle.
+   */
+  public static async settleAll(promises: Promise<unknown>[]): Promise<void> {
+    const errors: unknown[] = [];
+
+    await Promise.all(promises.map((promise: Promise<unknown>) => promise.catch((error: unknown) => {
+      errors.push(error);
+    })));
 
-    return response;
+    if (errors.length > 0) throw errors[0];
   }
 
   /**
@@ -0,0 +1,121 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Bounds, Capsule, Line, Ray, Sphere } from "../src/collisions/collisions.js";
+import { Matrix4 } from "../src/math/matrix4.js";
+import { Vector3 } from "../src/math/vector3.js";
+
+/**
+ * Asserts that two vectors are equal within a tolerance.
+ * @param actual The actual vector.
+ * @param expected The expected vector.
+ */
+function assertVector(actual: Vector3 | undefined, expected: Vector3): void {
+  assert.ok(actual, "expected a vector");
+  assert.ok(actual.subtract(expected).magnitude < 1e-4, `expected ${expected.x}, ${expected.y}, ${expected.z} but got ${actual.x}, ${actual.y}, ${actual.z}`);
+}
+
+/**
+ * Creates an upright capsule 2 tall between its sphere centers, with a radius of 0.5.
+ * @param position The position of the capsule's center.
+ * @returns The capsule.
+ */
+function createCapsule(position: Vector3): Capsule {
+  const capsule: Capsule = new Capsule(new Vector3(0, -1, 0), new Vector3(0, 1, 0), 0.5);
+
+  capsule.transformation = Matrix4.fromPosition(position);
+
+  return capsule;
+}
+
+describe("Ray", () => {
+  const bounds: Bounds = new Bounds(new Vector3(-1, -1, -1), new Vector3(1, 1, 1));
+
+  it("hits bounds with the normal of the face entered", () => {
+    const [t, normal]: [number, Vector3] = new Ray(new Vector3(-2, 0, 0), Vector3.x).getBoundsIntersection(bounds)!;
+
+    assert.equal(t, 1);
+    assertVector(normal, new Vector3(-1, 0, 0));
+
+    const [tTop, normalTop]: [number, Vector3] = new Ray(new Vector3(0, 5, 0), new Vector3(0, -1, 0)).getBoundsIntersection(bounds)!;
+
+    assert.equal(tTop, 4);
+    assertVector(normalTop, Vector3.y);
+  });
+
+  it("hits bounds at zero from inside and misses bounds out of range", () => {
+    assert.equal(new Ray(Vector3.zero, Vector3.x).getBoundsIntersection(bounds)![0], 0);
+    assert.equal(new Ray(new Vector3(-2, 3, 0), Vector3.x).getBoundsIntersection(bounds), undefined);
+    assert.equal(new Ray(new Vector3(-5, 0, 0), Vector3.x).getBoundsIntersection(bounds, 2), undefined);
+  });
+
+  it("finds the closest points between two lines", () => {
+    const [point, otherPoint]: [Vector3, Vector3] = new Line(Vector3.zero, new Vector3(10, 0, 0)).closestPointsTo(new Line(new Vector3(5, 3, -1), new Vector3(5, 3, 1)));
+
+    assertVector(point, new Vector3(5, 0, 0));
+    assertVector(otherPoint, new Vector3(5, 3, 0));
+  });
+});
+
+describe("Sphere", () => {
+  const sphere: Sphere = new Sphere(Vector3.zero, 1);
+
+  it("hits a ray with the surface normal", () => {
+    const [t, normal]: [number, Vector3] = sphere.getRayIntersection(new Ray(new Vector3(0, 5, 0), new Vector3(0, -1, 0)))!;
+
+    assert.equal(t, 4);
+    assertVector(normal, Vector3.y);
+    assert.equal(sphere.getRayIntersection(new Ray(new Vector3(0, 5, 0), Vector3.x)), undefined);
+  });
+
+  it("overlaps another sphere with the separating normal", () => {
+    const [overlapping, normal, overlap]: [boolean, Vector3?, number?] = new Sphere(new Vector3(1.5, 0, 0), 1).getSphereIntersection(sphere);
+
+    assert.ok(overlapping);
+    assertVector(normal, Vector3.x);
+    assert.equal(overlap, 0.5);
+    assert.equal(new Sphere(new Vector3(3, 0, 0), 1).getSphereIntersection(sphere)[0], false);
+  });
+
+  it("sweeps into another sphere", () => {
+    const [t, normal]: [number, Vector3] = new Sphere(new Vector3(-5, 0, 0), 1).sweep(new Vector3(10, 0, 0), sphere)!;
+
+    assert.ok(Math.abs(t - 0.3) < 1e-6);
+    assertVector(normal, new Vector3(-1, 0, 0));
+    assert.equal(new Sphere(new Vector3(-5, 0, 0), 1).sweep(new Vector3(2, 0, 0), sphere), undefined);
+  });
+});
+
+describe("Capsule", () => {
+  const capsule: Capsule = createCapsule(Vector3.zero);
+
+  it("hits a ray on its body and caps", () => {
+    const [t, normal]: [number, Vector3] = capsule.getRayIntersection(new Ray(new Vector3(-5, 0.5, 0), Vector3.x))!;
+
+    assert.ok(Math.abs(t - 4.5) < 1e-6);
+    assertVector(normal, new Vector3(-1, 0, 0));
+
+    const [tCap, normalCap]: [number, Vector3] = capsule.getRayIntersection(new Ray(new Vector3(0, 5, 0), new Vector3(0, -1, 0)))!;
+
+    assert.ok(Math.abs(tCap - 3.5) < 1e-6);
+    assertVector(normalCap, Vector3.y);
+    assert.equal(capsule.getRayIntersection(new Ray(new Vector3(-5, 3, 0), Vector3.x)), undefined);
+  });
+
+  it("overlaps another capsule with the separating normal", () => {
+    const [overlapping, normal, overlap]: [boolean, Vector3?, number?] = createCapsule(new Vector3(-0.8, 0, 0)).getCapsuleIntersection(capsule);
+
+    assert.ok(overlapping);
+    assertVector(normal, new Vector3(-1, 0, 0));
+    assert.ok(Math.abs(overlap! - 0.2) < 1e-6);
+    assert.equal(createCapsule(new Vector3(-2, 0, 0)).getCapsuleIntersection(capsule)[0], false);
+  });
+
+  it("sweeps into another capsule", () => {
+    const [t, normal]: [number, Vector3] = createCapsule(new Vector3(-3, 0, 0)).sweep(new Vector3(4, 0, 0), capsule)!;
+
+    assert.ok(Math.abs(t - 0.5) < 1e-3);
+    assertVector(normal, new Vector3(-1, 0, 0));
+    assert.equal(createCapsule(new Vector3(-3, 0, 0)).sweep(new Vector3(1, 0, 0), capsule), undefined);
+    assert.equal(createCapsule(new Vector3(-0.8, 0, 0)).sweep(Vector3.x, capsule)![0], 0);
+  });
+});
@@ -0,0 +1,153 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import { Control, CONTROLS, InputFrame } from "../src/interfacing/controller.js";
+import { GamepadSource } from "../src/interfacing/gamepadsource.js";
+import { InputSettings } from "../src/interfacing/inputsettings.js";
+
+/** A fake gamepad with the standard mapping's 4 axes and 17 buttons, all at rest. */
+interface FakeGamepad {
+  index: number,
+  connected: boolean,
+  axes: number[],
+  buttons: { pressed: boolean, value: number }[]
+}
+
+/**
+ * Creates a fake gamepad.
+ * @param index The gamepad index.
+ * @returns The fake gamepad.
+ */
+function createGamepad(index: number): FakeGamepad {
+  const buttons: { pressed: boolean, value: number }[] = [];
+
+  for (let i = 0; i < 17; i++) buttons.push({ pressed: false, value: 0 });
+
+  return { index, connected: true, axes: [0, 0, 0, 0], buttons };
+}
+
+/**
+ * Determines whether or not a control is active in an input frame.
+ * @param frame The input frame.
+ * @param control The control.
+ * @returns True if active, false if otherwise.
+ */
+function isActive(frame: InputFrame, control: Control): boolean {
+  return (frame.controls & 1 << CONTROLS.indexOf(control)) !== 0;
+}
+
+describe("GamepadSource", () => {
+  let settings: InputSettings;
+  let gamepads: (FakeGamepad | null)[];
+  let source: GamepadSource;
+
+  beforeEach(() => {
+    settings = new InputSettings();
+    gamepads = [null, createGamepad(1)];
+    source = new GamepadSource(settings, () => gamepads as unknown as Gamepad[]);
+  });
+
+  describe("dead zone", () => {
+    it("ignores stick deflection within the dead zone", () => {
+      assert.deepEqual(source.shapeStick(0.1, 0.05), [0, 0]);
+      assert.deepEqual(source.shapeStick(0, -settings.deadZone), [0, 0]);
+    });
+
+    it("rescales deflection outside the dead zone along the curve", () => {
+      const [x, y]: [number, number] = source.shapeStick(0, 1);
+
+      assert.equal(x, 0);
+      assert.ok(Math.abs(y - 1) < 1e-9);
+
+      // Halfway between the dead zone and full deflection, squared by the default curve of 2
+      const halfway: number = settings.deadZone + (1 - settings.deadZone) / 2;
+
+      assert.ok(Math.abs(source.shapeStick(halfway, 0)[0] - 0.25) < 1e-9);
+    });
+
+    it("keeps resting sticks from moving or aiming", () => {
+      gamepads[1]!.axes = [0.1, -0.1, 0.1, 0.1];
+
+      const frame: InputFrame = source.read();
+
+      assert.equal(frame.controls, 0);
+      assert.equal(Math.abs(frame.aimX), 0);
+      assert.equal(Math.abs(frame.aimY), 0);
+    });
+  });
+
+  describe("button mapping", () => {
+    it("maps held buttons to their bound controls", () => {
+      gamepads[1]!.buttons[0].pressed = true; // A
+      gamepads[1]!.buttons[3].pressed = true; // Y
+
+      const frame: InputFrame = source.read();
+
+      assert.ok(isActive(frame, Control.jump));
+      assert.ok(isActive(frame, Control.switchScan));
+      assert.ok(!isActive(frame, Control.scan));
+    });
+
+    it("counts triggers as held past the press threshold", () => {
+      gamepads[1]!.buttons[7].value = 0.3;
+      assert.ok(!isActive(source.read(), Control.scan));
+
+      gamepads[1]!.buttons[7].value = 0.8;
+      assert.ok(isActive(source.read(), Control.scan));
+    });
+
+    it("maps the left stick to movement and the bumpers to the scan angle", () => {
+      gamepads[1]!.axes = [1, -1, 0, 0];
+      gamepads[1]!.buttons[5].pressed = true;
+
+      const frame: InputFrame = source.read();
+
+      assert.ok(isActive(frame, Control.moveF));
+      assert.ok(isActive(frame, Control.moveR));
+      assert.ok(!isActive(frame, Control.moveB));
+      assert.ok(!isActive(frame, Control.moveL));
+      assert.ok(frame.scroll > 0);
+    });
+  });
+
+  describe("connections", () => {
+    it("uses the first connected gamepad", () => {
+      let connected: FakeGamepad | undefined;
+      source.connected.connect((gamepad: FakeGamepad) => connected = gamepad);
+
+      source.read();
+
+      assert.equal(connected, gamepads[1]);
+      assert.equal(source.gamepad, gamepads[1]);
+    });
+
+    it("fires disconnected and reads nothing once the gamepad is unplugged", () => {
+      let disconnects: number = 0;
+      source.disconnected.connect(() => disconnects++);
+
+      gamepads[1]!.buttons[0].pressed = true;
+      source.read();
+
+      gamepads[1]!.connected = false;
+
+      const frame: InputFrame = source.read();
+
+      assert.equal(disconnects, 1);
+      assert.equal(frame.controls, 0);
+      assert.equal(source.gamepad, undefined);
+
+      source.read();
+      assert.equal(disconnects, 1);
+    });
+
+    it("switches to another gamepad plugged in after a disconnect", () => {
+      source.read();
+
+      gamepads[1] = null;
+      gamepads[0] = createGamepad(0);
+      gamepads[0].buttons[0].pressed = true;
+
+      assert.ok(isActive(source.read(), Control.jump));
+      assert.equal(source.gamepad, gamepads[0]);
+    });
+  });
+});
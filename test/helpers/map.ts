@@ -0,0 +1,44 @@
+import { readFileSync } from "fs";
+import { BVH } from "../../src/collisions/bvh.js";
+import { GameModel } from "../../src/mesh/mesh.js";
+import { Triangle } from "../../src/collisions/collisions.js";
+import { Vector3 } from "../../src/math/vector3.js";
+
+/**
+ * Parses the triangles of an obj file, triangulating its faces the same way the mesh loader does.
+ * @param path The path to the obj file, relative to the repository root.
+ * @returns The triangles.
+ */
+export function loadObjTriangles(path: string): Triangle[] {
+  const vertices: Vector3[] = [];
+  const triangles: Triangle[] = [];
+
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    const parts: string[] = line.trim().split(/\s+/);
+
+    if (parts[0] === "v") vertices.push(new Vector3(parseFloat(parts[1]), parseFloat(parts[2]), parseFloat(parts[3])));
+
+    if (parts[0] === "f") {
+      const indices: number[] = parts.slice(1).map((part: string) => parseInt(part.split("/")[0]) - 1);
+
+      for (let i = 1; i < indices.length - 1; i++) {
+        triangles.push(new Triangle(vertices[indices[0]], vertices[indices[i]], vertices[indices[i + 1]]));
+      }
+    }
+  }
+
+  return triangles;
+}
+
+/**
+ * Builds a BVH from the level map, without the mesh loader which needs a browser.
+ * @returns The BVH.
+ */
+export function loadMapBVH(): BVH {
+  const bvh: BVH = new BVH();
+
+  // The BVH only reads the triangles of its models
+  bvh.init([{ triangles: loadObjTriangles("res/models/map.obj") } as GameModel]);
+
+  return bvh;
+}
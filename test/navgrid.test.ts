@@ -0,0 +1,55 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { loadMapBVH } from "./helpers/map.js";
+import { NavGrid } from "../src/navigation/navgrid.js";
+import { Random } from "../src/util/random.js";
+import { Vector3 } from "../src/math/vector3.js";
+
+describe("NavGrid", () => {
+  const navGrid: NavGrid = new NavGrid();
+  navGrid.init(loadMapBVH());
+
+  const spawn: Vector3 = new Vector3(0, -3.5, 0);
+
+  it("generates walkable nodes from the map", () => {
+    assert.ok(navGrid.nodeCount > 0);
+    assert.ok(navGrid.isWalkable(spawn));
+  });
+
+  it("finds a walkable path across the map ending at the goal", () => {
+    const goal: Vector3 = new Vector3(-100, -3.5, -180);
+    const path: Vector3[] | undefined = navGrid.findPath(spawn, goal);
+
+    assert.ok(path && path.length > 0);
+
+    const end: Vector3 = path[path.length - 1];
+
+    assert.equal(end.x, goal.x);
+    assert.equal(end.z, goal.z);
+
+    for (const waypoint of path) assert.ok(navGrid.isWalkable(waypoint), `waypoint ${waypoint.x}, ${waypoint.y}, ${waypoint.z} is not walkable`);
+  });
+
+  it("smooths paths across open floor down to the goal node and the goal", () => {
+    const path: Vector3[] | undefined = navGrid.findPath(spawn, new Vector3(-6, -3.5, 0));
+
+    assert.equal(path?.length, 2);
+  });
+
+  it("finds no path from outside the map", () => {
+    assert.equal(navGrid.findPath(new Vector3(1000, -3.5, 1000), spawn), undefined);
+  });
+
+  it("picks reachable random positions within the radius", () => {
+    const random: Random = new Random(1);
+    const centre: Vector3 = new Vector3(-150, -3.5, -150);
+
+    for (let i = 0; i < 20; i++) {
+      const position: Vector3 | undefined = navGrid.getRandomPosition(centre, 30, () => random.next());
+
+      assert.ok(position);
+      assert.ok(position.subtract(centre).magnitude <= 30);
+      assert.ok(navGrid.findPath(centre, position));
+    }
+  });
+});